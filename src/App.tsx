@@ -9,14 +9,6 @@ import { Dialog, DialogContent, DialogTitle } from './components/ui/dialog';
 import { Textarea } from './components/ui/textarea';
 import { Send, Book, User, Loader2, Image, Video, Camera, Film, Settings as SettingsIcon, Gamepad2, RefreshCw } from 'lucide-react';
 import { TicTacToe } from './components/TicTacToe';
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  type?: 'text' | 'image' | 'video' | 'game';
-  mediaUrl?: string;
-}
+import type { Message } from './lib/chat/types';
 
 // ...rest of the file remains unchanged...
@@ -0,0 +1,17 @@
+import { MarkdownMessage } from './MarkdownMessage'
+import { SpokenText } from './SpokenText'
+import { useSpeech } from '../hooks/use-speech'
+import type { Message } from '../lib/chat/types'
+
+interface AssistantMessageContentProps {
+  message: Message
+}
+
+// Markdown normally; plain sentences with highlighting while read aloud
+export function AssistantMessageContent({ message }: AssistantMessageContentProps) {
+  const { messageId, sentences, index } = useSpeech()
+
+  return messageId === message.id
+    ? <SpokenText sentences={sentences} index={index} />
+    : <MarkdownMessage content={message.content} />
+}
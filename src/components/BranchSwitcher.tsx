@@ -0,0 +1,40 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Button } from './ui/button'
+import type { BranchPosition } from '../lib/chat/branching'
+
+interface BranchSwitcherProps {
+  position: BranchPosition | null
+  disabled?: boolean
+  onSwitch: (offset: number) => void
+}
+
+// "< 2/3 >" between the versions of an edited message
+export function BranchSwitcher({ position, disabled, onSwitch }: BranchSwitcherProps) {
+  if (!position || position.total < 2) return null
+
+  return (
+    <div className="flex items-center text-xs text-gray-500">
+      <Button
+        onClick={() => onSwitch(-1)}
+        disabled={disabled || position.index === 0}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <span className="tabular-nums">{position.index + 1}/{position.total}</span>
+      <Button
+        onClick={() => onSwitch(1)}
+        disabled={disabled || position.index === position.total - 1}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
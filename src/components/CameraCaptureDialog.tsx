@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Camera, Loader2, RotateCcw, Timer } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Toggle } from './ui/toggle'
+import { Button } from './ui/button'
+import { useCamera } from '../hooks/use-camera'
+import { snapshotVideo } from '../lib/images/downscale'
+import { createImageAttachment } from '../lib/chat/attachments'
+import type { CameraSource } from '../lib/camera/camera-source'
+import type { Attachment } from '../lib/chat/types'
+
+const COUNTDOWN_SECONDS = 3
+
+interface CameraCaptureDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCapture: (attachment: Attachment) => void
+  source?: CameraSource
+}
+
+export function CameraCaptureDialog({ open, onOpenChange, onCapture, source }: CameraCaptureDialogProps) {
+  const [snapshot, setSnapshot] = useState<{ blob: Blob; url: string } | null>(null)
+  const [useTimer, setUseTimer] = useState(false)
+  const [countdown, setCountdown] = useState<number | null>(null)
+  const [attaching, setAttaching] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const countdownRef = useRef<ReturnType<typeof setInterval>>(undefined)
+  const camera = useCamera({ active: open && !snapshot, source })
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = camera.stream
+  }, [camera.stream])
+
+  useEffect(() => () => {
+    if (snapshot) URL.revokeObjectURL(snapshot.url)
+  }, [snapshot])
+
+  const takeSnapshot = async () => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return
+    try {
+      const blob = await snapshotVideo(video)
+      setSnapshot({ blob, url: URL.createObjectURL(blob) })
+    } catch (error) {
+      console.error('Snapshot failed:', error)
+      toast.error("Couldn't take the photo. Please try again.")
+    }
+  }
+
+  const stopCountdown = () => {
+    clearInterval(countdownRef.current)
+    setCountdown(null)
+  }
+
+  useEffect(() => () => clearInterval(countdownRef.current), [])
+
+  const startCountdown = () => {
+    let remaining = COUNTDOWN_SECONDS
+    setCountdown(remaining)
+    countdownRef.current = setInterval(() => {
+      remaining -= 1
+      if (remaining > 0) {
+        setCountdown(remaining)
+        return
+      }
+      stopCountdown()
+      void takeSnapshot()
+    }, 1000)
+  }
+
+  const close = (next: boolean) => {
+    if (!next) {
+      setSnapshot(null)
+      stopCountdown()
+    }
+    onOpenChange(next)
+  }
+
+  const attach = async () => {
+    if (!snapshot) return
+    setAttaching(true)
+    try {
+      onCapture(await createImageAttachment(snapshot.blob, `photo-${Date.now()}`))
+      close(false)
+    } catch (error) {
+      console.error('Could not attach photo:', error)
+      toast.error("Couldn't attach the photo. Please try again.")
+    } finally {
+      setAttaching(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Take a Photo</DialogTitle>
+          <DialogDescription>Snap a picture, a page of text or a worksheet and ask Albert about it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative aspect-video overflow-hidden rounded-lg bg-gray-900">
+          {snapshot ? (
+            <img src={snapshot.url} alt="Your snapshot" className="h-full w-full object-contain" />
+          ) : (
+            <video ref={videoRef} autoPlay playsInline muted className="h-full w-full object-contain" />
+          )}
+
+          {!snapshot && camera.status === 'starting' && (
+            <div className="absolute inset-0 flex items-center justify-center text-white">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          )}
+          {!snapshot && (camera.error || !camera.supported) && (
+            <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-white">
+              {camera.error ?? "This browser can't use a camera."}
+            </div>
+          )}
+          {countdown !== null && (
+            <div className="absolute inset-0 flex items-center justify-center text-7xl font-bold text-white drop-shadow-lg">
+              {countdown}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          {snapshot ? (
+            <Button onClick={() => setSnapshot(null)} variant="outline">
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retake
+            </Button>
+          ) : (
+            <div className="flex items-center space-x-2">
+              {camera.devices.length > 1 && (
+                <Select value={camera.deviceId} onValueChange={camera.setDeviceId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Camera" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {camera.devices.map(device => (
+                      <SelectItem key={device.id} value={device.id}>{device.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Toggle pressed={useTimer} onPressedChange={setUseTimer} aria-label={`${COUNTDOWN_SECONDS} second timer`}>
+                <Timer className="h-4 w-4 mr-1" />
+                {COUNTDOWN_SECONDS}s
+              </Toggle>
+            </div>
+          )}
+
+          {snapshot ? (
+            <Button onClick={() => void attach()} disabled={attaching}>
+              {attaching && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Attach Photo
+            </Button>
+          ) : (
+            <Button
+              onClick={() => useTimer ? startCountdown() : void takeSnapshot()}
+              disabled={camera.status !== 'live' || countdown !== null}
+            >
+              <Camera className="h-4 w-4 mr-1" />
+              Capture
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
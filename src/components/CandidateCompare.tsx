@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react'
+import { Check } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from './ui/resizable'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Button } from './ui/button'
+import { diffWords, type DiffPart } from '../lib/chat/diff'
+import type { Message } from '../lib/chat/types'
+
+interface CandidateCompareProps {
+  candidates: Message[]
+  activeId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSelect: (messageId: string) => void
+}
+
+export function CandidateCompare({ candidates, activeId, open, onOpenChange, onSelect }: CandidateCompareProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare Answers</DialogTitle>
+          <DialogDescription>
+            Removed words are struck through on the left, new ones highlighted on the right.
+          </DialogDescription>
+        </DialogHeader>
+        {open && candidates.length > 1 && (
+          <CompareContent
+            candidates={candidates}
+            activeId={activeId}
+            onSelect={(messageId) => {
+              onSelect(messageId)
+              onOpenChange(false)
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+const PART_STYLES: Record<DiffPart['kind'], string> = {
+  same: '',
+  added: 'bg-green-100 text-green-900 rounded-sm',
+  removed: 'bg-red-100 text-red-900 line-through rounded-sm'
+}
+
+function CompareContent({ candidates, activeId, onSelect }: Omit<CandidateCompareProps, 'open' | 'onOpenChange'>) {
+  const activeIndex = Math.max(0, candidates.findIndex(candidate => candidate.id === activeId))
+  const [leftId, setLeftId] = useState(candidates[activeIndex].id)
+  const [rightId, setRightId] = useState(candidates[activeIndex === 0 ? 1 : activeIndex - 1].id)
+
+  const left = candidates.find(candidate => candidate.id === leftId) ?? candidates[0]
+  const right = candidates.find(candidate => candidate.id === rightId) ?? candidates[1]
+  const parts = useMemo(() => diffWords(left.content, right.content), [left.content, right.content])
+
+  const panel = (side: Message, setSide: (id: string) => void, hidden: DiffPart['kind']) => (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b p-2">
+        <Select value={side.id} onValueChange={setSide}>
+          <SelectTrigger className="w-36 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((candidate, index) => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                Answer {index + 1}{candidate.id === activeId ? ' (current)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => onSelect(side.id)}
+          disabled={side.id === activeId}
+          variant="outline"
+          size="sm"
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Use this answer
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-3 text-sm leading-relaxed whitespace-pre-wrap">
+        {parts.filter(part => part.kind !== hidden).map((part, index) => (
+          <span key={index} className={PART_STYLES[part.kind]}>{part.text}</span>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="min-h-[24rem] max-h-[70vh] rounded-lg border">
+      <ResizablePanel defaultSize={50} minSize={25}>
+        {panel(left, setLeftId, 'added')}
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={50} minSize={25}>
+        {panel(right, setRightId, 'removed')}
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  )
+}
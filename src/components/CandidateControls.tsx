@@ -0,0 +1,59 @@
+import { useState } from 'react'
+import { Columns2, RefreshCw } from 'lucide-react'
+import { Button } from './ui/button'
+import { BranchSwitcher } from './BranchSwitcher'
+import { CandidateCompare } from './CandidateCompare'
+import { branchPosition } from '../lib/chat/branching'
+import type { Conversation, Message } from '../lib/chat/types'
+
+interface CandidateControlsProps {
+  conversation: Conversation
+  message: Message
+  disabled?: boolean
+  onRegenerate: () => void
+  onSwitch: (offset: number) => void
+  onSelect: (messageId: string) => void
+}
+
+// Regenerate / flip between / compare the candidate answers for one assistant turn
+export function CandidateControls({ conversation, message, disabled, onRegenerate, onSwitch, onSelect }: CandidateControlsProps) {
+  const [comparing, setComparing] = useState(false)
+  const position = branchPosition(conversation, message.id)
+
+  return (
+    <div className="mt-1 flex items-center space-x-1">
+      <BranchSwitcher position={position} disabled={disabled} onSwitch={onSwitch} />
+      <Button
+        onClick={onRegenerate}
+        disabled={disabled}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-gray-500"
+        aria-label="Regenerate answer"
+      >
+        <RefreshCw className="h-3.5 w-3.5" />
+      </Button>
+      {position && position.total > 1 && (
+        <>
+          <Button
+            onClick={() => setComparing(true)}
+            disabled={disabled}
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-gray-500"
+            aria-label="Compare answers"
+          >
+            <Columns2 className="h-3.5 w-3.5" />
+          </Button>
+          <CandidateCompare
+            candidates={position.siblings}
+            activeId={message.id}
+            open={comparing}
+            onOpenChange={setComparing}
+            onSelect={onSelect}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+import { useEffect, useLayoutEffect, useRef, useState, type ClipboardEvent, type DragEvent, type KeyboardEvent } from 'react'
+import toast from 'react-hot-toast'
+import { Camera, FileText, Loader2, Paperclip, Send, X } from 'lucide-react'
+import { Textarea } from './ui/textarea'
+import { Button } from './ui/button'
+import { SlashCommandMenu } from './SlashCommandMenu'
+import { PushToTalkButton } from './PushToTalkButton'
+import { CameraCaptureDialog } from './CameraCaptureDialog'
+import { useDraft } from '../hooks/use-draft'
+import { useSlashCommands } from '../hooks/use-slash-commands'
+import { cn } from '../lib/utils'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import { AttachmentError, formatBytes, MAX_ATTACHMENTS, readAttachment, uploadAttachments } from '../lib/chat/attachments'
+import { estimateTokens } from '../lib/chat/context-window'
+import type { CommandContext } from '../lib/commands/registry'
+import type { TranscriptionBackend } from '../lib/voice/transcription'
+import type { CameraSource } from '../lib/camera/camera-source'
+import type { Attachment } from '../lib/chat/types'
+
+const MAX_HEIGHT = 240
+
+interface ComposerProps {
+  conversationId: string | null
+  // The user's earlier prompts, oldest first, for Up-arrow recall
+  history: string[]
+  commandContext: CommandContext
+  onSubmit: (text: string, attachments: Attachment[]) => void | Promise<void>
+  disabled?: boolean
+  placeholder?: string
+  provider?: ChatProvider
+  transcriptionBackend?: TranscriptionBackend
+  cameraSource?: CameraSource
+}
+
+export function Composer({
+  conversationId,
+  history,
+  commandContext,
+  onSubmit,
+  disabled,
+  placeholder = 'Ask Albert anything… (type / for commands)',
+  provider = defaultProvider,
+  transcriptionBackend,
+  cameraSource
+}: ComposerProps) {
+  const [text, setText] = useDraft(conversationId)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [recallIndex, setRecallIndex] = useState<number | null>(null)
+  const [dragging, setDragging] = useState(false)
+  const [sending, setSending] = useState(false)
+  const [capturing, setCapturing] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // The conversation on screen now, which may change while a message sends
+  const conversationIdRef = useRef(conversationId)
+  conversationIdRef.current = conversationId
+
+  const commands = useSlashCommands({ input: text, setInput: setText, context: commandContext })
+
+  // Attachments belong to the message being written in this conversation
+  useEffect(() => {
+    setAttachments([])
+  }, [conversationId])
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.style.height = 'auto'
+    textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_HEIGHT)}px`
+  }, [text])
+
+  const addFiles = async (files: File[]) => {
+    const room = MAX_ATTACHMENTS - attachments.length
+    if (files.length > room) toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`)
+
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const attachment = await readAttachment(file)
+        setAttachments(previous => [...previous, attachment])
+      } catch (error) {
+        toast.error(error instanceof AttachmentError ? error.message : `Couldn't read ${file.name}`)
+      }
+    }
+  }
+
+  const submit = async () => {
+    const trimmed = text.trim()
+    if (sending || disabled) return
+    if (await commands.submit(trimmed)) return
+    if (!trimmed && attachments.length === 0) return
+
+    setSending(true)
+    try {
+      const sentFrom = conversationId
+      const uploaded = await uploadAttachments(attachments, provider)
+      await onSubmit(trimmed, uploaded)
+      // Leave the draft alone if the user has moved to another conversation
+      if (conversationIdRef.current === sentFrom) {
+        setText('')
+        setAttachments([])
+        setRecallIndex(null)
+      }
+    } catch (error) {
+      console.error('Failed to send message:', error)
+      toast.error("Couldn't send your message. Please try again.")
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const recall = (index: number | null) => {
+    setRecallIndex(index)
+    setText(index === null ? '' : history[index])
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (commands.handleKeyDown(e)) return
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault()
+      void submit()
+      return
+    }
+
+    // Up/Down only recall prompts from the edges of the text, so they still
+    // move the caret inside a multiline draft
+    const { selectionStart, selectionEnd, value } = e.currentTarget
+    if (e.key === 'ArrowUp' && selectionStart === 0 && selectionEnd === 0 && history.length > 0) {
+      e.preventDefault()
+      recall(recallIndex === null ? history.length - 1 : Math.max(0, recallIndex - 1))
+    } else if (e.key === 'ArrowDown' && recallIndex !== null && selectionStart === value.length) {
+      e.preventDefault()
+      recall(recallIndex + 1 < history.length ? recallIndex + 1 : null)
+    }
+  }
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    void addFiles(files)
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    void addFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const attachedText = attachments.map(attachment => attachment.text ?? '').join('')
+  const tokens = estimateTokens(text) + estimateTokens(attachedText)
+  const busy = sending || commands.running
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault()
+        setDragging(true)
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={cn('rounded-xl border bg-white p-2 transition-colors', dragging && 'border-blue-400 bg-blue-50')}
+    >
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 pb-2">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="group relative">
+              {attachment.kind === 'image' ? (
+                <img src={attachment.url} alt={attachment.name} className="h-16 w-16 rounded-lg border object-cover" />
+              ) : (
+                <div className="flex h-16 items-center space-x-2 rounded-lg border bg-gray-50 px-3 text-xs text-gray-700">
+                  <FileText className="h-5 w-5 text-gray-400" />
+                  <div>
+                    <p className="max-w-32 truncate font-medium">{attachment.name}</p>
+                    <p className="text-gray-500">{formatBytes(attachment.size)}</p>
+                  </div>
+                </div>
+              )}
+              <button
+                onClick={() => setAttachments(previous => previous.filter(existing => existing.id !== attachment.id))}
+                className="absolute -right-1.5 -top-1.5 rounded-full bg-gray-800 p-0.5 text-white opacity-0 group-hover:opacity-100"
+                aria-label={`Remove ${attachment.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SlashCommandMenu
+        open={commands.open}
+        suggestions={commands.suggestions}
+        selectedIndex={commands.selectedIndex}
+        error={commands.error}
+        onPick={(suggestion) => {
+          commands.complete(suggestion)
+          textareaRef.current?.focus()
+        }}
+      >
+        <div className="flex items-end space-x-2">
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            variant="ghost"
+            size="icon"
+            className="shrink-0 text-gray-500"
+            disabled={disabled || attachments.length >= MAX_ATTACHMENTS}
+            aria-label="Attach files"
+          >
+            <Paperclip className="h-5 w-5" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept="image/*,text/*,.md,.csv,.json"
+            className="sr-only"
+            onChange={(e) => {
+              void addFiles(Array.from(e.target.files ?? []))
+              e.target.value = ''
+            }}
+          />
+          <Button
+            onClick={() => setCapturing(true)}
+            variant="ghost"
+            size="icon"
+            className="shrink-0 text-gray-500"
+            disabled={disabled || attachments.length >= MAX_ATTACHMENTS}
+            aria-label="Take a photo"
+          >
+            <Camera className="h-5 w-5" />
+          </Button>
+          <CameraCaptureDialog
+            open={capturing}
+            onOpenChange={setCapturing}
+            source={cameraSource}
+            onCapture={(attachment) => {
+              setAttachments(previous => [...previous, attachment])
+              textareaRef.current?.focus()
+            }}
+          />
+          <PushToTalkButton
+            backend={transcriptionBackend}
+            disabled={disabled}
+            onTranscript={(transcript) => {
+              setText(previous => previous.trim() ? `${previous.trimEnd()} ${transcript}` : transcript)
+              textareaRef.current?.focus()
+            }}
+          />
+          <Textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setRecallIndex(null)
+            }}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder={placeholder}
+            rows={1}
+            disabled={disabled}
+            className="min-h-10 resize-none border-0 shadow-none focus-visible:ring-0"
+          />
+          <Button
+            onClick={() => void submit()}
+            disabled={disabled || busy || (!text.trim() && attachments.length === 0)}
+            size="icon"
+            className="shrink-0"
+            aria-label="Send"
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </SlashCommandMenu>
+
+      <p className="px-1 pt-1 text-right text-xs text-gray-400 tabular-nums">
+        {text.length} chars · ~{tokens} tokens · Shift+Enter for a new line
+      </p>
+    </div>
+  )
+}
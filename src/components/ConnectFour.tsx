@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { RotateCcw, Gamepad2, BarChart3 } from 'lucide-react'
+import { GameStats } from './GameStats'
+import { useGameStats } from '../hooks/use-game-stats'
+import {
+  COLUMNS,
+  createConnectFourState,
+  dropDisc,
+  findConnectFourLine,
+  findConnectFourMove,
+  landingRow,
+  type ConnectFourState
+} from '../lib/games/connect-four'
+import type { GameRendererProps } from '../lib/games/registry'
+
+const ALBERT_THINKING_MS = 500
+
+export function ConnectFour({ state, onStateChange, onGameEnd }: GameRendererProps<ConnectFourState>) {
+  const [showStats, setShowStats] = useState(false)
+  const { recordGame } = useGameStats('connect-four')
+
+  const play = useCallback((column: number) => {
+    const next = dropDisc(state, column)
+    if (next === state) return
+
+    onStateChange(next)
+    if (next.gameOver) {
+      const result = next.winner === 'X' ? 'win' : next.winner === 'O' ? 'lose' : 'draw'
+      onGameEnd(result)
+      recordGame({
+        gameId: 'connect-four',
+        result,
+        moveCount: next.columns.length,
+        opening: next.columns.slice(0, 2).map(column => column + 1).join('-')
+      })
+    }
+  }, [state, onStateChange, onGameEnd, recordGame])
+
+  // Handle Albert's move
+  useEffect(() => {
+    if (state.currentPlayer !== 'O' || state.gameOver) return
+
+    const timer = setTimeout(() => {
+      const column = findConnectFourMove(state)
+      if (column !== null) play(column)
+    }, ALBERT_THINKING_MS)
+
+    return () => clearTimeout(timer)
+  }, [state, play])
+
+  const winningLine = state.winner ? findConnectFourLine(state.board) : null
+
+  const getStatusMessage = () => {
+    if (state.gameOver) {
+      if (state.winner === 'X') return { text: "🎉 You Won!", color: "text-blue-600" }
+      if (state.winner === 'O') return { text: "🤖 Albert Won!", color: "text-red-600" }
+      return { text: "🤝 It's a Draw!", color: "text-gray-600" }
+    }
+    return state.currentPlayer === 'X'
+      ? { text: "Your Turn", color: "text-blue-600" }
+      : { text: "Albert's Turn", color: "text-red-600" }
+  }
+
+  const status = getStatusMessage()
+
+  return (
+    <Card className="p-6 max-w-md mx-auto bg-white/95 backdrop-blur-sm">
+      <div className="text-center mb-4">
+        <div className="flex items-center justify-center mb-2">
+          <Gamepad2 className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-lg font-bold text-gray-900">Connect Four</h3>
+        </div>
+        <p className={`text-sm font-medium ${status.color}`}>{status.text}</p>
+      </div>
+
+      {/* Game Board */}
+      <div className="grid grid-cols-7 gap-1 p-2 mb-4 rounded-xl bg-blue-600">
+        {state.board.map((cell, index) => {
+          const column = index % COLUMNS
+          return (
+            <button
+              key={index}
+              onClick={() => play(column)}
+              disabled={state.gameOver || state.currentPlayer === 'O' || landingRow(state.board, column) === -1}
+              className={`h-10 w-10 rounded-full border-2 transition-colors ${
+                cell === 'X' ? 'bg-blue-200 border-blue-300' : cell === 'O' ? 'bg-red-400 border-red-500' : 'bg-white border-blue-700 hover:bg-blue-50'
+              } ${winningLine?.includes(index) ? 'ring-2 ring-yellow-400' : ''}`}
+              aria-label={`Drop in column ${column + 1}`}
+            />
+          )
+        })}
+      </div>
+
+      {/* Controls */}
+      <div className="flex justify-center space-x-2">
+        <Button onClick={() => onStateChange(createConnectFourState())} variant="outline" size="sm" className="flex items-center">
+          <RotateCcw className="h-4 w-4 mr-1" />
+          New Game
+        </Button>
+        <Button onClick={() => setShowStats(true)} variant="outline" size="sm" className="text-gray-600">
+          <BarChart3 className="h-4 w-4 mr-1" />
+          Stats
+        </Button>
+      </div>
+
+      <GameStats gameId="connect-four" gameName="Connect Four" open={showStats} onOpenChange={setShowStats} />
+    </Card>
+  )
+}
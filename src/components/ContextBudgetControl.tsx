@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Progress } from './ui/progress'
+import { CONTEXT_BUDGETS } from '../lib/chat/context-window'
+
+interface ContextBudgetControlProps {
+  usage: number
+  budget: number
+  summarising?: boolean
+  onBudgetChange: (budget: number) => void
+}
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+
+export function ContextBudgetControl({ usage, budget, summarising, onBudgetChange }: ContextBudgetControlProps) {
+  return (
+    <div className="flex items-center space-x-2 text-xs text-gray-500">
+      <Progress value={Math.min(100, (usage / budget) * 100)} className="h-1.5 w-20" />
+      <span className="tabular-nums">
+        {summarising ? 'Summarising…' : `${formatTokens(usage)} / ${formatTokens(budget)} tokens`}
+      </span>
+      <Select value={String(budget)} onValueChange={(value) => onBudgetChange(Number(value))}>
+        <SelectTrigger className="w-20 h-7 text-xs" aria-label="Context budget">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CONTEXT_BUDGETS.map(option => (
+            <SelectItem key={option} value={String(option)}>{formatTokens(option)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { useState } from 'react'
+import { ChevronDown, ScrollText } from 'lucide-react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { cn } from '../lib/utils'
+import type { ContextSummary } from '../lib/chat/types'
+
+interface ContextSummaryNoteProps {
+  summary: ContextSummary
+}
+
+// System note at the top of the thread standing in for summarised messages
+export function ContextSummaryNote({ summary }: ContextSummaryNoteProps) {
+  const [open, setOpen] = useState(false)
+  const count = summary.coveredIds.length
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mx-auto my-4 max-w-2xl rounded-lg border border-dashed border-gray-300 bg-gray-50">
+      <CollapsibleTrigger className="flex w-full items-center space-x-2 px-3 py-2 text-left text-xs text-gray-600">
+        <ScrollText className="h-4 w-4 shrink-0" />
+        <span className="flex-1">
+          {count} earlier {count === 1 ? 'message is' : 'messages are'} summarised to save space
+        </span>
+        <ChevronDown className={cn('h-4 w-4 transition-transform', open && 'rotate-180')} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 text-sm text-gray-700 whitespace-pre-wrap">
+        {summary.text}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton
+} from './ui/sidebar'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { Download, FileCode, FileJson, FileText, MessageSquare, MoreHorizontal, Pencil, Plus, Printer, Trash2, Upload } from 'lucide-react'
+import { ImportConversationsDialog } from './ImportConversationsDialog'
+import { exportConversation, type ImportPlan } from '../lib/chat/transcript'
+import type { Conversation } from '../lib/chat/types'
+
+interface ConversationSidebarProps {
+  conversations: Conversation[]
+  activeId: string | null
+  loading?: boolean
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  onImport: (plan: ImportPlan) => void
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  loading,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onImport
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+  const [importing, setImporting] = useState(false)
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setDraftTitle(conversation.title)
+  }
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, draftTitle)
+    setEditingId(null)
+  }
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <Button onClick={onCreate} variant="outline" size="sm" className="justify-start">
+          <Plus className="h-4 w-4 mr-1" />
+          New Chat
+        </Button>
+        <Button onClick={() => setImporting(true)} variant="ghost" size="sm" className="justify-start text-gray-600">
+          <Upload className="h-4 w-4 mr-1" />
+          Import
+        </Button>
+        <ImportConversationsDialog
+          existing={conversations}
+          open={importing}
+          onOpenChange={setImporting}
+          onImport={onImport}
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Conversations</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {loading && Array.from({ length: 4 }, (_, index) => (
+                <SidebarMenuItem key={index}>
+                  <SidebarMenuSkeleton />
+                </SidebarMenuItem>
+              ))}
+
+              {!loading && conversations.map(conversation => (
+                <SidebarMenuItem key={conversation.id}>
+                  {editingId === conversation.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={finishRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename()
+                        if (e.key === 'Escape') setEditingId(null)
+                      }}
+                    />
+                  ) : (
+                    <SidebarMenuButton
+                      isActive={conversation.id === activeId}
+                      onClick={() => onSelect(conversation.id)}
+                      tooltip={conversation.title}
+                    >
+                      <MessageSquare />
+                      <span>{conversation.title}</span>
+                    </SidebarMenuButton>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover>
+                        <MoreHorizontal />
+                        <span className="sr-only">More</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    {/* Returning focus to the trigger would blur the rename box straight away */}
+                    <DropdownMenuContent side="right" align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+                      <DropdownMenuItem onSelect={() => startRename(conversation)}>
+                        <Pencil />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>
+                          <Download />
+                          Export
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          <DropdownMenuItem onSelect={() => exportConversation(conversation, 'markdown')}>
+                            <FileText />
+                            Markdown
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => exportConversation(conversation, 'json')}>
+                            <FileJson />
+                            JSON (re-importable)
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => exportConversation(conversation, 'html')}>
+                            <FileCode />
+                            HTML
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => exportConversation(conversation, 'print')}>
+                            <Printer />
+                            Print / Save as PDF
+                          </DropdownMenuItem>
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onSelect={() => onDelete(conversation.id)} className="text-red-600">
+                        <Trash2 />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  )
+}
@@ -0,0 +1,71 @@
+import { useMemo } from 'react'
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart'
+import { Card } from './ui/card'
+import { bucketReviews, deckStats, forecastDue, type Deck } from '../lib/study/decks'
+
+const historyConfig = {
+  recalled: { label: 'Recalled', color: 'hsl(142 71% 45%)' },
+  forgotten: { label: 'Forgotten', color: 'hsl(0 84% 60%)' }
+} satisfies ChartConfig
+
+const forecastConfig = {
+  due: { label: 'Due', color: 'hsl(217 91% 60%)' }
+} satisfies ChartConfig
+
+export function DeckStats({ deck }: { deck: Deck }) {
+  const stats = useMemo(() => deckStats(deck), [deck])
+  const history = useMemo(() => bucketReviews(deck), [deck])
+  const forecast = useMemo(() => forecastDue(deck), [deck])
+
+  const tiles = [
+    { label: 'Due now', value: stats.due },
+    { label: 'New', value: stats.new },
+    { label: 'Learning', value: stats.learning },
+    { label: 'Mature', value: stats.mature },
+    { label: 'Retention', value: stats.retention === null ? '–' : `${Math.round(stats.retention * 100)}%` }
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-5 gap-2">
+        {tiles.map(tile => (
+          <Card key={tile.label} className="p-3 text-center">
+            <p className="text-xl font-bold text-gray-900">{tile.value}</p>
+            <p className="text-xs text-gray-500">{tile.label}</p>
+          </Card>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Reviews, last 14 days</h4>
+        {stats.reviews === 0 ? (
+          <p className="text-sm text-gray-500">No reviews yet. Study this deck to start tracking.</p>
+        ) : (
+          <ChartContainer config={historyConfig} className="h-48 w-full">
+            <BarChart data={history}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="recalled" stackId="reviews" fill="var(--color-recalled)" />
+              <Bar dataKey="forgotten" stackId="reviews" fill="var(--color-forgotten)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Coming up</h4>
+        <ChartContainer config={forecastConfig} className="h-40 w-full">
+          <BarChart data={forecast}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="due" fill="var(--color-due)" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  )
+}
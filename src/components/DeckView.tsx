@@ -0,0 +1,120 @@
+import { useMemo, type ChangeEvent } from 'react'
+import toast from 'react-hot-toast'
+import { Download, GraduationCap, Trash2, Upload } from 'lucide-react'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Input } from './ui/input'
+import { Button } from './ui/button'
+import { DeckStats } from './DeckStats'
+import { dueCards, type CardInput, type Deck } from '../lib/study/decks'
+import { CardFileError, exportDeck, readCardFile, type ParsedCards } from '../lib/study/card-files'
+import { formatInterval, isDue } from '../lib/study/sm2'
+
+interface DeckViewProps {
+  deck: Deck
+  onStudy: () => void
+  onAddCards: (cards: CardInput[]) => void
+  onRename: (title: string) => void
+  onDelete: () => void
+}
+
+export function DeckView({ deck, onStudy, onAddCards, onRename, onDelete }: DeckViewProps) {
+  const due = useMemo(() => dueCards(deck).length, [deck])
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    let parsed: ParsedCards
+    try {
+      parsed = await readCardFile(file)
+    } catch (error) {
+      if (error instanceof CardFileError) toast.error(error.message)
+      return
+    }
+
+    const { cards, skipped } = parsed
+    onAddCards(cards)
+    toast.success(`Imported ${cards.length} card${cards.length === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} incomplete` : ''}`)
+  }
+
+  const now = new Date()
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Input
+          key={deck.id}
+          defaultValue={deck.title}
+          onBlur={(e) => e.target.value !== deck.title && onRename(e.target.value)}
+          className="border-0 px-1 text-lg font-semibold shadow-none focus-visible:ring-1"
+          aria-label="Deck title"
+        />
+        <div className="flex shrink-0 space-x-2">
+          <Button onClick={onStudy} disabled={due === 0} size="sm">
+            <GraduationCap className="h-4 w-4 mr-1" />
+            {due > 0 ? `Study ${due}` : 'All Caught Up'}
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button disabled={deck.cards.length === 0} variant="outline" size="sm">
+                <Download className="h-4 w-4 mr-1" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportDeck(deck, 'csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportDeck(deck, 'anki')}>Anki (plain text)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button asChild variant="outline" size="sm">
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+              <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" className="sr-only" onChange={handleFile} />
+            </label>
+          </Button>
+          <Button onClick={onDelete} variant="ghost" size="icon" className="h-8 w-8 text-gray-500" aria-label="Delete deck">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {deck.source && <p className="px-1 text-xs text-gray-500">From {deck.source}</p>}
+
+      <Tabs defaultValue="stats">
+        <TabsList>
+          <TabsTrigger value="stats">Progress</TabsTrigger>
+          <TabsTrigger value="cards">Cards ({deck.cards.length})</TabsTrigger>
+        </TabsList>
+        <TabsContent value="stats">
+          <DeckStats deck={deck} />
+        </TabsContent>
+        <TabsContent value="cards">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Front</TableHead>
+                <TableHead>Back</TableHead>
+                <TableHead className="text-right">Next review</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deck.cards.map(card => (
+                <TableRow key={card.id}>
+                  <TableCell className="align-top">{card.front}</TableCell>
+                  <TableCell className="align-top text-gray-600">{card.back}</TableCell>
+                  <TableCell className="text-right align-top text-xs text-gray-500">
+                    {isDue(card.schedule, now) ? 'Due' : `in ${formatInterval(new Date(card.schedule.due), now)}`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react'
+import { ArrowLeft, PartyPopper } from 'lucide-react'
+import { Progress } from './ui/progress'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { cn } from '../lib/utils'
+import { dueCards, type Deck } from '../lib/study/decks'
+import { formatInterval, REVIEW_GRADES, scheduleReview, type ReviewGrade } from '../lib/study/sm2'
+
+interface FlashcardReviewProps {
+  deck: Deck
+  onReview: (cardId: string, grade: ReviewGrade) => void
+  onExit: () => void
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-200 text-red-700 hover:bg-red-50',
+  hard: 'border-amber-200 text-amber-700 hover:bg-amber-50',
+  good: 'border-green-200 text-green-700 hover:bg-green-50',
+  easy: 'border-blue-200 text-blue-700 hover:bg-blue-50'
+}
+
+export function FlashcardReview({ deck, onReview, onExit }: FlashcardReviewProps) {
+  // The session works through the cards due when it started; cards answered
+  // "Again" go to the back of the queue and come round once more
+  const [queue, setQueue] = useState(() => dueCards(deck).map(card => card.id))
+  const [total] = useState(queue.length)
+  const [done, setDone] = useState(0)
+  const [revealed, setRevealed] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Read from the deck so edits and earlier answers are reflected
+  const card = deck.cards.find(candidate => candidate.id === queue[0])
+  const now = new Date()
+  const cardId = card?.id
+
+  // The button just clicked unmounts on each step, which would drop focus to
+  // the dialog; keep it here so the shortcuts below keep working
+  useEffect(() => {
+    containerRef.current?.focus()
+  }, [cardId, revealed])
+
+  const grade = (value: ReviewGrade) => {
+    if (!card) return
+    onReview(card.id, value)
+    setQueue(previous => value === 'again' ? [...previous.slice(1), card.id] : previous.slice(1))
+    if (value !== 'again') setDone(previous => previous + 1)
+    setRevealed(false)
+  }
+
+  // Space shows the answer; 1–4 pick a grade
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!card) return
+    if (!revealed) {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        setRevealed(true)
+      }
+      return
+    }
+    const picked = REVIEW_GRADES[Number(e.key) - 1]
+    if (picked) grade(picked.id)
+  }
+
+  if (!card) {
+    return (
+      <div className="flex flex-col items-center space-y-3 py-12 text-center">
+        <PartyPopper className="h-8 w-8 text-blue-500" />
+        <p className="font-medium text-gray-900">{total > 0 ? `Done! You reviewed ${total} card${total === 1 ? '' : 's'}.` : 'Nothing is due right now.'}</p>
+        <p className="text-sm text-gray-500">Albert will bring cards back when it's time to review them again.</p>
+        <Button onClick={onExit} variant="outline">Back to Deck</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div ref={containerRef} tabIndex={-1} onKeyDown={handleKeyDown} className="space-y-4 outline-none">
+      <div className="flex items-center space-x-3">
+        <Button onClick={onExit} variant="ghost" size="icon" aria-label="Stop reviewing">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <Progress value={total ? (done / total) * 100 : 0} className="flex-1" />
+        <span className="text-xs text-gray-500 tabular-nums">{done} / {total}</span>
+      </div>
+
+      <Card className="flex min-h-64 flex-col items-center justify-center space-y-4 p-8 text-center">
+        <p className="whitespace-pre-wrap text-lg font-medium text-gray-900">{card.front}</p>
+        {revealed && (
+          <>
+            <hr className="w-full" />
+            <p className="whitespace-pre-wrap text-gray-700">{card.back}</p>
+          </>
+        )}
+      </Card>
+
+      {revealed ? (
+        <div className="grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map((option, index) => (
+            <Button key={option.id} onClick={() => grade(option.id)} variant="outline" className={cn('h-auto flex-col py-2', GRADE_STYLES[option.id])}>
+              <span>{option.label}</span>
+              <span className="text-xs opacity-70">
+                {formatInterval(scheduleReview(card.schedule, option.id, now).due, now)} · {index + 1}
+              </span>
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <Button onClick={() => setRevealed(true)} className="w-full">
+          Show Answer
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from 'react'
+import { getGame, type GameResult } from '../lib/games/registry'
+import type { Message } from '../lib/chat/types'
+import '../lib/games/builtin'
+
+interface GameMessageProps {
+  message: Message
+  onChange: (message: Message) => void
+  onGameEnd?: (result: GameResult) => void
+}
+
+// Hosts any registered game inside a chat message. The game's state is kept
+// serialised on the message so several games can live in one conversation.
+export function GameMessage({ message, onChange, onGameEnd }: GameMessageProps) {
+  const game = getGame(message.gameId)
+
+  const state = useMemo(() => {
+    if (!game) return null
+    try {
+      return message.gameState ? game.deserialize(message.gameState) : game.createInitialState()
+    } catch (error) {
+      console.error(`Failed to restore ${game.id} state:`, error)
+      return game.createInitialState()
+    }
+  }, [game, message.gameState])
+
+  const handleStateChange = useCallback((next: unknown) => {
+    if (!game) return
+    onChange({ ...message, gameId: game.id, gameState: game.serialize(next), content: game.describe(next) })
+  }, [game, message, onChange])
+
+  const handleGameEnd = useCallback((result: GameResult) => onGameEnd?.(result), [onGameEnd])
+
+  if (!game || state === null) {
+    return <p className="text-sm text-gray-500">This game ({message.gameId}) is not available.</p>
+  }
+
+  const { Renderer } = game
+  return <Renderer state={state} onStateChange={handleStateChange} onGameEnd={handleGameEnd} />
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react'
+import { AnimatePresence, motion } from 'framer-motion'
+import { Button } from './ui/button'
+import { Slider } from './ui/slider'
+import { Pause, Play, SkipBack, SkipForward, X } from 'lucide-react'
+import { boardFromMoves, cellName, type MoveRecord } from '../lib/games/move-history'
+import type { BoardConfig } from '../lib/games/tictactoe'
+
+const REPLAY_STEP_MS = 700
+
+interface GameReplayProps {
+  config: BoardConfig
+  moves: MoveRecord[]
+  onClose: () => void
+}
+
+export function GameReplay({ config, moves, onClose }: GameReplayProps) {
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(true)
+
+  useEffect(() => {
+    if (!playing) return
+    if (step >= moves.length) {
+      setPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setStep(current => current + 1), REPLAY_STEP_MS)
+    return () => clearTimeout(timer)
+  }, [playing, step, moves.length])
+
+  const board = boardFromMoves(config, moves.slice(0, step))
+  const lastMove = step > 0 ? moves[step - 1] : null
+  const elapsed = lastMove && moves[0].at ? ((lastMove.at - moves[0].at) / 1000).toFixed(1) : null
+  const cellSize = config.size > 5 ? 'h-5 w-5 text-[10px]' : config.size > 3 ? 'h-10 w-10 text-lg' : 'h-14 w-14 text-2xl'
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="grid gap-1 justify-center"
+        style={{ gridTemplateColumns: `repeat(${config.size}, max-content)` }}
+      >
+        {board.map((cell, index) => (
+          <div
+            key={index}
+            className={`${cellSize} flex items-center justify-center rounded-md border font-bold ${
+              lastMove?.index === index ? 'border-yellow-400 bg-yellow-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <AnimatePresence>
+              {cell && (
+                <motion.span
+                  key={cell}
+                  initial={{ scale: 0, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  exit={{ scale: 0, opacity: 0 }}
+                  transition={{ type: 'spring', stiffness: 400, damping: 20 }}
+                  className={cell === 'X' ? 'text-blue-600' : 'text-red-600'}
+                >
+                  {cell}
+                </motion.span>
+              )}
+            </AnimatePresence>
+          </div>
+        ))}
+      </div>
+
+      <Slider
+        min={0}
+        max={moves.length}
+        step={1}
+        value={[step]}
+        onValueChange={([value]) => {
+          setPlaying(false)
+          setStep(value)
+        }}
+      />
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          Move {step}/{moves.length}
+          {lastMove && ` · ${lastMove.player} ${cellName(lastMove.index, config)}`}
+          {elapsed && ` · +${elapsed}s`}
+        </span>
+        <div className="flex space-x-1">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setStep(current => Math.max(0, current - 1))}>
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => {
+              if (step >= moves.length) setStep(0)
+              setPlaying(current => !current)
+            }}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setStep(current => Math.min(moves.length, current + 1))}>
+            <SkipForward className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
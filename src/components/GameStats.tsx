@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useGameStats } from '../hooks/use-game-stats'
+import { bucketGames, listVariants, recordsForVariant, summarizeGames, variantLabel, type StatsPeriod } from '../lib/games/stats'
+
+const chartConfig = {
+  wins: { label: 'Wins', color: 'hsl(217 91% 60%)' },
+  losses: { label: 'Losses', color: 'hsl(0 84% 60%)' },
+  draws: { label: 'Draws', color: 'hsl(220 9% 46%)' }
+} satisfies ChartConfig
+
+const STREAK_LABELS = { win: 'wins', lose: 'losses', draw: 'draws' }
+
+interface GameStatsProps {
+  gameId: string
+  gameName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function GameStats({ gameId, gameName, open, onOpenChange }: GameStatsProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{gameName} Stats</DialogTitle>
+          <DialogDescription>Every game you've finished against Albert.</DialogDescription>
+        </DialogHeader>
+        {/* Mounting only while open reloads the latest results each time */}
+        {open && <GameStatsContent gameId={gameId} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function GameStatsContent({ gameId }: { gameId: string }) {
+  const { records, loading, clearStats } = useGameStats(gameId)
+  const [period, setPeriod] = useState<StatsPeriod>('day')
+  // Until one is picked, show the board played most recently
+  const [chosenVariant, setChosenVariant] = useState<string | null>(null)
+
+  const variants = useMemo(() => listVariants(records), [records])
+  const variant = chosenVariant !== null && variants.includes(chosenVariant) ? chosenVariant : variants[0]
+  const played = useMemo(() => recordsForVariant(records, variant), [records, variant])
+  const summary = useMemo(() => summarizeGames(played), [played])
+  const buckets = useMemo(() => bucketGames(played, period), [played, period])
+
+  const clear = async () => {
+    try {
+      await clearStats(variant)
+    } catch (error) {
+      console.error('Failed to clear game stats:', error)
+      toast.error("Couldn't clear the stats. Please try again.")
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading stats…</p>
+  }
+
+  if (summary.played === 0) {
+    return <p className="text-sm text-gray-500">No finished games yet. Play one to start tracking!</p>
+  }
+
+  const tiles = [
+    { label: 'Played', value: summary.played },
+    { label: 'Win rate', value: `${Math.round((summary.wins / summary.played) * 100)}%` },
+    { label: 'Best win streak', value: summary.longestWinStreak },
+    { label: 'Avg. moves', value: summary.averageLength.toFixed(1) }
+  ]
+
+  return (
+    <div className="space-y-4">
+      {variants.length > 1 && (
+        <Select value={variant} onValueChange={setChosenVariant}>
+          <SelectTrigger className="w-48 h-8 text-xs" aria-label="Board">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {variants.map(option => (
+              <SelectItem key={option} value={option}>{variantLabel(option)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        {tiles.map(tile => (
+          <Card key={tile.label} className="p-3 text-center">
+            <p className="text-xl font-bold text-gray-900">{tile.value}</p>
+            <p className="text-xs text-gray-500">{tile.label}</p>
+          </Card>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {summary.wins} wins · {summary.losses} losses · {summary.draws} draws
+        {summary.currentStreak && ` · Current streak: ${summary.currentStreak.length} ${STREAK_LABELS[summary.currentStreak.result]}`}
+      </p>
+
+      {/* Trend */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-900">Results over time</h4>
+          <Select value={period} onValueChange={(value) => setPeriod(value as StatsPeriod)}>
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <ChartContainer config={chartConfig} className="h-56 w-full">
+          <BarChart data={buckets}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="wins" stackId="results" fill="var(--color-wins)" />
+            <Bar dataKey="losses" stackId="results" fill="var(--color-losses)" />
+            <Bar dataKey="draws" stackId="results" fill="var(--color-draws)" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      {/* Openings */}
+      {summary.openings.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Opening</TableHead>
+              <TableHead className="text-right">Played</TableHead>
+              <TableHead className="text-right">Won</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.openings.slice(0, 5).map(opening => (
+              <TableRow key={opening.opening}>
+                <TableCell className="font-mono">{opening.opening}</TableCell>
+                <TableCell className="text-right">{opening.played}</TableCell>
+                <TableCell className="text-right">{opening.wins}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" className="text-gray-600" onClick={() => void clear()}>
+          {variants.length > 1 ? `Clear ${variantLabel(variant)} Stats` : 'Clear Stats'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import toast from 'react-hot-toast'
+import { ArrowUpRight, Brush, Eraser, Loader2, MessageCircleQuestion, Type, Undo2, Wand2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group'
+import { Slider } from './ui/slider'
+import { Textarea } from './ui/textarea'
+import { Input } from './ui/input'
+import { Button } from './ui/button'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import { uploadAttachments } from '../lib/chat/attachments'
+import { isAbortError } from '../lib/chat/streaming'
+import {
+  AnnotationError,
+  BRUSH_SIZES,
+  drawAnnotations,
+  hasMask,
+  loadEditableImage,
+  type Annotation,
+  type AnnotationTool,
+  type Point
+} from '../lib/images/annotation'
+import {
+  createAnnotationAttachments,
+  createRegionEditMessages,
+  explainPrompt,
+  requestRegionEdit,
+  type AnnotationIntent
+} from '../lib/images/region-request'
+import type { Attachment, Message } from '../lib/chat/types'
+
+interface ImageAnnotatorProps {
+  // The image message being annotated; the dialog is open while this is set
+  message: Message | null
+  onClose: () => void
+  // Same shape as the composer's submit: a question with uploaded attachments
+  onExplain: (text: string, attachments: Attachment[]) => void | Promise<void>
+  // The request and the edited image, to append to the conversation
+  onEdited: (messages: Message[]) => void
+  provider?: ChatProvider
+}
+
+export function ImageAnnotator({ message, onClose, onExplain, onEdited, provider }: ImageAnnotatorProps) {
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Mark Up Image</DialogTitle>
+          <DialogDescription>Paint over an area, add arrows or labels, then ask Albert about it or to change it.</DialogDescription>
+        </DialogHeader>
+        {message && (
+          <AnnotatorBody
+            key={message.id}
+            message={message}
+            provider={provider}
+            onExplain={onExplain}
+            onEdited={onEdited}
+            onDone={onClose}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface AnnotatorBodyProps extends Omit<ImageAnnotatorProps, 'message' | 'onClose'> {
+  message: Message
+  onDone: () => void
+}
+
+function AnnotatorBody({ message, onExplain, onEdited, onDone, provider = defaultProvider }: AnnotatorBodyProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [tool, setTool] = useState<AnnotationTool>('mask')
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES.initial)
+  const [label, setLabel] = useState('')
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  // The stroke or arrow being drawn right now
+  const [draft, setDraft] = useState<Annotation | null>(null)
+  const [instruction, setInstruction] = useState('')
+  const [busy, setBusy] = useState<AnnotationIntent | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Closing the dialog gives up on an edit that is still being drawn
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  useEffect(() => {
+    let release: (() => void) | undefined
+    let cancelled = false
+
+    loadEditableImage(message.mediaUrl ?? '')
+      .then(loaded => {
+        release = loaded.release
+        if (cancelled) loaded.release()
+        else setImage(loaded.image)
+      })
+      .catch(error => !cancelled && setLoadError(error instanceof AnnotationError ? error.message : "Couldn't open this image."))
+
+    return () => {
+      cancelled = true
+      release?.()
+    }
+  }, [message.mediaUrl])
+
+  // Keep the canvas backing store matched to its on-screen size, then redraw
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !image) return
+
+    const redraw = () => {
+      const { width, height } = canvas.getBoundingClientRect()
+      canvas.width = Math.round(width * devicePixelRatio)
+      canvas.height = Math.round(height * devicePixelRatio)
+      const context = canvas.getContext('2d')
+      if (!context) return
+      context.clearRect(0, 0, canvas.width, canvas.height)
+      drawAnnotations(context, draft ? [...annotations, draft] : annotations, canvas.width, canvas.height)
+    }
+
+    redraw()
+    const observer = new ResizeObserver(redraw)
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [image, annotations, draft])
+
+  const pointFrom = (e: PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return [
+      Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    ]
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const point = pointFrom(e)
+    if (tool === 'text') {
+      if (label.trim()) setAnnotations(previous => [...previous, { kind: 'text', at: point, text: label.trim() }])
+      else toast('Type a label first, then click where it goes')
+      return
+    }
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDraft(tool === 'mask' ? { kind: 'mask', points: [point], size: brushSize } : { kind: 'arrow', from: point, to: point })
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return
+    const point = pointFrom(e)
+    setDraft(draft.kind === 'mask' ? { ...draft, points: [...draft.points, point] } : draft.kind === 'arrow' ? { ...draft, to: point } : draft)
+  }
+
+  const handlePointerUp = () => {
+    if (!draft) return
+    // Clicks without a drag would leave zero-length arrows
+    const tooShort = draft.kind === 'arrow' && Math.hypot(draft.to[0] - draft.from[0], draft.to[1] - draft.from[1]) < 0.02
+    if (!tooShort) setAnnotations(previous => [...previous, draft])
+    setDraft(null)
+  }
+
+  const submit = async (intent: AnnotationIntent) => {
+    if (!image) return
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setBusy(intent)
+    try {
+      const attachments = await uploadAttachments(await createAnnotationAttachments(image, annotations), provider)
+      if (intent === 'explain') {
+        await onExplain(explainPrompt(instruction, hasMask(annotations)), attachments)
+      } else {
+        const url = await requestRegionEdit(provider, message, instruction, attachments, controller.signal)
+        onEdited(createRegionEditMessages(message, instruction, attachments, url))
+      }
+      onDone()
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Annotated image request failed:', error)
+      toast.error(intent === 'edit' ? "Couldn't change the image. Please try again." : "Couldn't send the image. Please try again.")
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+      setBusy(null)
+    }
+  }
+
+  if (loadError) return <p className="py-12 text-center text-sm text-gray-500">{loadError}</p>
+  if (!image) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup type="single" value={tool} onValueChange={(value) => value && setTool(value as AnnotationTool)}>
+          <ToggleGroupItem value="mask" aria-label="Paint area">
+            <Brush className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="arrow" aria-label="Arrow">
+            <ArrowUpRight className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="text" aria-label="Label">
+            <Type className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {tool === 'mask' && (
+          <Slider
+            value={[brushSize]}
+            onValueChange={([value]) => setBrushSize(value)}
+            min={BRUSH_SIZES.min}
+            max={BRUSH_SIZES.max}
+            step={0.005}
+            className="w-32"
+            aria-label="Brush size"
+          />
+        )}
+        {tool === 'text' && (
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label, then click the image"
+            maxLength={40}
+            className="h-8 w-56"
+          />
+        )}
+
+        <div className="ml-auto flex space-x-1">
+          <Button
+            onClick={() => setAnnotations(previous => previous.slice(0, -1))}
+            disabled={annotations.length === 0}
+            variant="ghost"
+            size="icon"
+            aria-label="Undo"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button onClick={() => setAnnotations([])} disabled={annotations.length === 0} variant="ghost" size="icon" aria-label="Clear marks">
+            <Eraser className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-center rounded-lg bg-gray-100 p-2">
+        <div className="relative">
+          <img src={image.src} alt={message.content} draggable={false} className="block max-h-[50vh] w-auto select-none rounded" />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDraft(null)}
+            className="absolute inset-0 h-full w-full cursor-crosshair touch-none"
+          />
+        </div>
+      </div>
+
+      <Textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="What is this? / Make the sky a sunset / Put a hat on the cat…"
+        className="min-h-16"
+      />
+
+      <div className="flex justify-end space-x-2">
+        <Button onClick={() => void submit('explain')} disabled={!!busy} variant="outline">
+          {busy === 'explain' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <MessageCircleQuestion className="h-4 w-4 mr-1" />}
+          Ask Albert
+        </Button>
+        <Button onClick={() => void submit('edit')} disabled={!!busy || annotations.length === 0}>
+          {busy === 'edit' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Wand2 className="h-4 w-4 mr-1" />}
+          Change This Region
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Download, ImageOff, RotateCcw } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from './ui/carousel'
+import { Button } from './ui/button'
+import { collectGalleryImages, downloadImage, imageFileName } from '../lib/images/gallery'
+import type { Conversation, ImageSettings } from '../lib/chat/types'
+
+interface ImageGalleryProps {
+  conversations: Conversation[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Opens the studio pre-filled with the image's settings
+  onReusePrompt: (settings: Partial<ImageSettings>) => void
+}
+
+export function ImageGallery({ conversations, open, onOpenChange, onReusePrompt }: ImageGalleryProps) {
+  const images = useMemo(() => open ? collectGalleryImages(conversations) : [], [open, conversations])
+  const [api, setApi] = useState<CarouselApi>()
+  const [current, setCurrent] = useState(0)
+
+  useEffect(() => {
+    if (!api) return
+    const onSelect = () => setCurrent(api.selectedScrollSnap())
+    onSelect()
+    api.on('select', onSelect)
+    return () => {
+      api.off('select', onSelect)
+    }
+  }, [api])
+
+  const image = images[current]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Gallery</DialogTitle>
+          <DialogDescription>
+            {images.length > 0 ? `${images.length} images from all your conversations` : 'Images you create will appear here.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {images.length === 0 ? (
+          <div className="flex flex-col items-center py-12 text-gray-400">
+            <ImageOff className="h-10 w-10 mb-2" />
+            <p className="text-sm">No images yet. Try /image or the Image Studio.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Carousel setApi={setApi} className="mx-12">
+              <CarouselContent>
+                {images.map(item => (
+                  <CarouselItem key={item.id} className="flex items-center justify-center">
+                    <img src={item.url} alt={item.prompt} className="max-h-[55vh] rounded-lg object-contain" />
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+
+            {image && (
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 line-clamp-2">{image.prompt}</p>
+                  <p className="text-xs text-gray-500">
+                    {image.conversationTitle} · {format(image.createdAt, 'PP')} · {current + 1}/{images.length}
+                  </p>
+                </div>
+                <div className="flex shrink-0 space-x-2">
+                  <Button onClick={() => void downloadImage(image.url, imageFileName(image.prompt))} variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-1" />
+                    Download
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      onReusePrompt(image.settings ?? { prompt: image.prompt })
+                      onOpenChange(false)
+                    }}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reuse Prompt
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
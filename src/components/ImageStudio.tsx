@@ -0,0 +1,227 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Check, Dices, Loader2, Sparkles } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { AspectRatio } from './ui/aspect-ratio'
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Textarea } from './ui/textarea'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Button } from './ui/button'
+import { cn } from '../lib/utils'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import {
+  ASPECT_PRESETS,
+  aspectPreset,
+  DEFAULT_IMAGE_SETTINGS,
+  generateStudioImages,
+  MAX_VARIANTS,
+  randomSeed,
+  STYLE_PRESETS
+} from '../lib/images/studio'
+import type { ImageSettings } from '../lib/chat/types'
+
+interface ImageStudioProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Settings to start from, e.g. when reusing a prompt from the gallery
+  initialSettings?: Partial<ImageSettings>
+  onAddToChat: (images: Array<{ url: string; settings: ImageSettings }>) => void
+  provider?: ChatProvider
+}
+
+export function ImageStudio({ open, onOpenChange, initialSettings, onAddToChat, provider }: ImageStudioProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Image Studio</DialogTitle>
+          <DialogDescription>Describe a picture, pick a shape and style, and Albert will draw it.</DialogDescription>
+        </DialogHeader>
+        {/* Remounting on open resets the form to the requested settings */}
+        {open && (
+          <StudioForm
+            initialSettings={initialSettings}
+            provider={provider}
+            onAddToChat={(images) => {
+              onAddToChat(images)
+              onOpenChange(false)
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function StudioForm({ initialSettings, onAddToChat, provider = defaultProvider }: Omit<ImageStudioProps, 'open' | 'onOpenChange'>) {
+  const [settings, setSettings] = useState<ImageSettings>(() => ({
+    ...DEFAULT_IMAGE_SETTINGS,
+    seed: randomSeed(),
+    ...initialSettings
+  }))
+  const [generating, setGenerating] = useState(false)
+  // Results keep the settings they were made with, even if the form changes
+  const [results, setResults] = useState<{ urls: string[]; settings: ImageSettings } | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const update = (patch: Partial<ImageSettings>) => setSettings(previous => ({ ...previous, ...patch }))
+  const ratio = aspectPreset(settings.aspect).ratio
+
+  const generate = async () => {
+    if (!settings.prompt.trim()) return
+    setGenerating(true)
+    try {
+      const urls = await generateStudioImages(provider, settings)
+      setResults({ urls, settings })
+      setSelected(new Set(urls))
+    } catch (error) {
+      console.error('Image generation failed:', error)
+      toast.error("Couldn't create the image. Please try a different prompt.")
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const toggle = (url: string) => {
+    setSelected(previous => {
+      const next = new Set(previous)
+      if (next.has(url)) next.delete(url)
+      else next.add(url)
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="studio-prompt">Prompt</Label>
+        <Textarea
+          id="studio-prompt"
+          value={settings.prompt}
+          onChange={(e) => update({ prompt: e.target.value })}
+          placeholder="A curious fox reading a book under a tree…"
+          className="min-h-20"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Shape</Label>
+          <ToggleGroup
+            type="single"
+            value={settings.aspect}
+            onValueChange={(aspect) => aspect && update({ aspect })}
+            className="justify-start"
+          >
+            {ASPECT_PRESETS.map(preset => (
+              <ToggleGroupItem key={preset.id} value={preset.id} className="h-16 w-16 flex-col p-1" aria-label={preset.label}>
+                <div className="w-8">
+                  <AspectRatio ratio={preset.ratio} className="rounded-sm border-2 border-current" />
+                </div>
+                <span className="text-[10px]">{preset.label}</span>
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Style</Label>
+          <Select value={settings.style} onValueChange={(style) => update({ style })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STYLE_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_9rem_6rem] gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="studio-negative">Leave out</Label>
+          <Input
+            id="studio-negative"
+            value={settings.negativePrompt}
+            onChange={(e) => update({ negativePrompt: e.target.value })}
+            placeholder="text, blurry, extra fingers"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="studio-seed">Seed</Label>
+          <div className="flex">
+            <Input
+              id="studio-seed"
+              type="number"
+              min={0}
+              value={settings.seed}
+              onChange={(e) => update({ seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            />
+            <Button onClick={() => update({ seed: randomSeed() })} variant="ghost" size="icon" aria-label="Random seed">
+              <Dices className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Variants</Label>
+          <Select value={String(settings.variants)} onValueChange={(value) => update({ variants: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button onClick={() => void generate()} disabled={generating || !settings.prompt.trim()} className="w-full">
+        {generating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+        {generating ? 'Creating…' : results ? 'Generate Again' : 'Generate'}
+      </Button>
+
+      {(generating || results) && (
+        <div className="grid grid-cols-2 gap-3">
+          {generating
+            ? Array.from({ length: settings.variants }, (_, i) => (
+                <AspectRatio key={i} ratio={ratio} className="animate-pulse rounded-lg bg-gray-100" />
+              ))
+            : results?.urls.map(url => (
+                <button
+                  key={url}
+                  onClick={() => toggle(url)}
+                  className={cn('relative overflow-hidden rounded-lg border-2', selected.has(url) ? 'border-blue-500' : 'border-transparent')}
+                >
+                  <AspectRatio ratio={aspectPreset(results.settings.aspect).ratio}>
+                    <img src={url} alt={results.settings.prompt} className="h-full w-full object-cover" />
+                  </AspectRatio>
+                  {selected.has(url) && (
+                    <span className="absolute right-2 top-2 rounded-full bg-blue-500 p-1 text-white">
+                      <Check className="h-3 w-3" />
+                    </span>
+                  )}
+                </button>
+              ))}
+        </div>
+      )}
+
+      {results && !generating && (
+        <div className="flex justify-end">
+          <Button
+            onClick={() => onAddToChat(results.urls.filter(url => selected.has(url)).map(url => ({ url, settings: results.settings })))}
+            disabled={selected.size === 0}
+          >
+            Add {selected.size} to Chat
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { useState, type ChangeEvent } from 'react'
+import { Upload } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Label } from './ui/label'
+import { Button } from './ui/button'
+import { parseTranscript, planImport, type ImportConflictStrategy, type ImportPlan } from '../lib/chat/transcript'
+import type { Conversation } from '../lib/chat/types'
+
+const STRATEGIES: Array<{ value: ImportConflictStrategy; label: string }> = [
+  { value: 'copy', label: 'Keep both (import as a copy)' },
+  { value: 'replace', label: 'Replace my version' },
+  { value: 'skip', label: 'Skip it' }
+]
+
+interface ImportConversationsDialogProps {
+  existing: Conversation[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (plan: ImportPlan) => void
+}
+
+export function ImportConversationsDialog({ existing, open, onOpenChange, onImport }: ImportConversationsDialogProps) {
+  const [imported, setImported] = useState<Conversation[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('copy')
+
+  const reset = () => {
+    setImported(null)
+    setError(null)
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    let content: string
+    try {
+      content = await file.text()
+    } catch (error) {
+      console.error('Failed to read transcript file:', error)
+      setImported(null)
+      setError(`Couldn't read ${file.name}.`)
+      return
+    }
+
+    const result = parseTranscript(content)
+    if (result.ok) {
+      setImported(result.conversations)
+      setError(null)
+    } else {
+      setImported(null)
+      setError(result.error)
+    }
+  }
+
+  const existingIds = new Set(existing.map(conversation => conversation.id))
+  const duplicates = imported?.filter(conversation => existingIds.has(conversation.id)).length ?? 0
+
+  const confirm = () => {
+    if (!imported) return
+    onImport(planImport(imported, existing, strategy))
+    reset()
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); if (!next) reset() }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Conversations</DialogTitle>
+          <DialogDescription>Choose a JSON file exported from Albert.</DialogDescription>
+        </DialogHeader>
+
+        <label className="flex cursor-pointer flex-col items-center rounded-lg border-2 border-dashed border-gray-300 p-6 text-sm text-gray-600 hover:border-blue-400">
+          <Upload className="h-6 w-6 mb-2 text-gray-400" />
+          {imported ? `${imported.length} conversation${imported.length === 1 ? '' : 's'} ready to import` : 'Select a .json file'}
+          <input type="file" accept="application/json,.json" className="sr-only" onChange={handleFile} />
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {duplicates > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              {duplicates} of these {duplicates === 1 ? 'conversation is' : 'conversations are'} already here. What should happen?
+            </p>
+            <RadioGroup value={strategy} onValueChange={(value) => setStrategy(value as ImportConflictStrategy)}>
+              {STRATEGIES.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`import-${option.value}`} />
+                  <Label htmlFor={`import-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => { reset(); onOpenChange(false) }} variant="ghost">Cancel</Button>
+          <Button onClick={confirm} disabled={!imported || imported.length === 0}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,102 @@
+import { memo, useRef, useState, type ComponentPropsWithoutRef } from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import toast from 'react-hot-toast'
+import { Check, Copy } from 'lucide-react'
+import { Button } from './ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import 'katex/dist/katex.min.css'
+import 'highlight.js/styles/github.css'
+
+function CodeBlock({ children, ...props }: ComponentPropsWithoutRef<'pre'>) {
+  const preRef = useRef<HTMLPreElement>(null)
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '')
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      toast.error('Could not copy to clipboard')
+    }
+  }
+
+  return (
+    <div className="relative group my-3">
+      <pre ref={preRef} className="overflow-x-auto rounded-lg bg-gray-50 border border-gray-200 p-3 text-sm" {...props}>
+        {children}
+      </pre>
+      <Button
+        onClick={copy}
+        variant="ghost"
+        size="icon"
+        className="absolute top-1 right-1 h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+        aria-label="Copy code"
+      >
+        {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+      </Button>
+    </div>
+  )
+}
+
+// react-markdown passes its hast `node` to every override; keep it off the DOM
+function omitNode<P extends object>(props: P): Omit<P, 'node'> {
+  const rest = { ...props } as P & { node?: unknown }
+  delete rest.node
+  return rest
+}
+
+const components: Components = {
+  pre: (props) => <CodeBlock {...omitNode(props)} />,
+  code: ({ className, ...props }) => (
+    <code className={className ?? 'rounded bg-gray-100 px-1 py-0.5 text-[0.9em]'} {...omitNode(props)} />
+  ),
+  a: (props) => (
+    <a className="text-blue-600 underline underline-offset-2" target="_blank" rel="noopener noreferrer" {...omitNode(props)} />
+  ),
+  p: (props) => <p className="my-2 first:mt-0 last:mb-0 leading-relaxed" {...omitNode(props)} />,
+  ul: (props) => <ul className="my-2 list-disc pl-6 space-y-1" {...omitNode(props)} />,
+  ol: (props) => <ol className="my-2 list-decimal pl-6 space-y-1" {...omitNode(props)} />,
+  h1: (props) => <h1 className="mt-4 mb-2 text-xl font-bold" {...omitNode(props)} />,
+  h2: (props) => <h2 className="mt-4 mb-2 text-lg font-bold" {...omitNode(props)} />,
+  h3: (props) => <h3 className="mt-3 mb-1 font-semibold" {...omitNode(props)} />,
+  blockquote: (props) => (
+    <blockquote className="my-2 border-l-4 border-gray-300 pl-3 text-gray-600 italic" {...omitNode(props)} />
+  ),
+  table: (props) => (
+    <div className="my-3 rounded-lg border">
+      <Table {...omitNode(props)} />
+    </div>
+  ),
+  thead: (props) => <TableHeader {...omitNode(props)} />,
+  tbody: (props) => <TableBody {...omitNode(props)} />,
+  tr: (props) => <TableRow {...omitNode(props)} />,
+  th: (props) => <TableHead {...omitNode(props)} />,
+  td: (props) => <TableCell {...omitNode(props)} />
+}
+
+interface MarkdownMessageProps {
+  content: string
+}
+
+// Raw HTML in the markdown is dropped (skipHtml) and unsafe link protocols are
+// stripped by react-markdown's default urlTransform, so model output can't
+// inject markup or scripts.
+export const MarkdownMessage = memo(function MarkdownMessage({ content }: MarkdownMessageProps) {
+  return (
+    <div className="text-sm break-words">
+      <ReactMarkdown
+        skipHtml
+        remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: true }]]}
+        rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+})
@@ -0,0 +1,44 @@
+import { useState, type KeyboardEvent } from 'react'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+
+interface MessageEditorProps {
+  initialContent: string
+  onSubmit: (content: string) => void
+  onCancel: () => void
+}
+
+export function MessageEditor({ initialContent, onSubmit, onCancel }: MessageEditorProps) {
+  const [content, setContent] = useState(initialContent)
+  const trimmed = content.trim()
+  const canSubmit = trimmed.length > 0 && trimmed !== initialContent.trim()
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      if (canSubmit) onSubmit(trimmed)
+    } else if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  return (
+    <div className="w-full space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="min-h-20 bg-white text-gray-900"
+        autoFocus
+      />
+      <div className="flex justify-end space-x-2">
+        <Button onClick={onCancel} variant="ghost" size="sm">
+          Cancel
+        </Button>
+        <Button onClick={() => onSubmit(trimmed)} disabled={!canSubmit} size="sm">
+          Save & Submit
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import { cn } from '../lib/utils'
+import { isImageAvatar, type Persona } from '../lib/personas/personas'
+
+interface PersonaAvatarProps {
+  persona: Persona
+  className?: string
+}
+
+export function PersonaAvatar({ persona, className }: PersonaAvatarProps) {
+  return (
+    <Avatar className={cn('h-8 w-8', className)}>
+      {isImageAvatar(persona.avatar) && <AvatarImage src={persona.avatar} alt={persona.name} />}
+      <AvatarFallback className="bg-blue-50 text-base">
+        {isImageAvatar(persona.avatar) ? persona.name.slice(0, 1).toUpperCase() : persona.avatar}
+      </AvatarFallback>
+    </Avatar>
+  )
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Checkbox } from './ui/checkbox'
+import { PersonaAvatar } from './PersonaAvatar'
+import { PERSONA_TOOLS, type Persona, type PersonaTool } from '../lib/personas/personas'
+import type { PersonaInput, SavePersonaResult } from '../hooks/use-personas'
+
+const TOOL_LABELS: Record<PersonaTool, string> = {
+  image: 'Images',
+  video: 'Videos',
+  game: 'Games'
+}
+
+const EMPTY_PERSONA: PersonaInput = {
+  name: '',
+  avatar: '🤖',
+  systemPrompt: '',
+  temperature: 0.7,
+  tools: ['image']
+}
+
+interface PersonaManagerProps {
+  personas: Persona[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (input: PersonaInput) => SavePersonaResult
+  onRemove: (id: string) => void
+}
+
+export function PersonaManager({ personas, open, onOpenChange, onSave, onRemove }: PersonaManagerProps) {
+  const [draft, setDraft] = useState<PersonaInput | null>(null)
+  const [errors, setErrors] = useState<Partial<Record<keyof Persona, string>>>({})
+
+  const edit = (input: PersonaInput | null) => {
+    setDraft(input)
+    setErrors({})
+  }
+
+  const save = () => {
+    if (!draft) return
+    const result = onSave(draft)
+    if (result.ok) edit(null)
+    else setErrors(result.errors)
+  }
+
+  const toggleTool = (tool: PersonaTool, enabled: boolean) => {
+    if (!draft) return
+    const tools = enabled ? [...draft.tools, tool] : draft.tools.filter(existing => existing !== tool)
+    setDraft({ ...draft, tools })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); if (!next) edit(null) }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{draft ? (draft.id ? 'Edit Persona' : 'New Persona') : 'Personas'}</DialogTitle>
+          <DialogDescription>Personas change how Albert talks and which tools he can use.</DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-[5rem_1fr] gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="persona-avatar">Avatar</Label>
+                <Input
+                  id="persona-avatar"
+                  value={draft.avatar}
+                  onChange={(e) => setDraft({ ...draft, avatar: e.target.value })}
+                  placeholder="🤖 or URL"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="persona-name">Name</Label>
+                <Input
+                  id="persona-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Science Buddy"
+                />
+              </div>
+            </div>
+            {(errors.avatar || errors.name) && (
+              <p className="text-xs text-red-600">{errors.avatar ?? errors.name}</p>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="persona-prompt">System prompt</Label>
+              <Textarea
+                id="persona-prompt"
+                value={draft.systemPrompt}
+                onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                placeholder="Describe how Albert should behave…"
+                className="min-h-28"
+              />
+              {errors.systemPrompt && <p className="text-xs text-red-600">{errors.systemPrompt}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Creativity</Label>
+                <span className="text-xs text-gray-500 tabular-nums">{draft.temperature.toFixed(1)}</span>
+              </div>
+              <Slider
+                value={[draft.temperature]}
+                onValueChange={([temperature]) => setDraft({ ...draft, temperature })}
+                min={0}
+                max={2}
+                step={0.1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Allowed tools</Label>
+              <div className="flex space-x-4">
+                {PERSONA_TOOLS.map(tool => (
+                  <label key={tool} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={draft.tools.includes(tool)}
+                      onCheckedChange={(checked) => toggleTool(tool, checked === true)}
+                    />
+                    <span>{TOOL_LABELS[tool]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button onClick={() => edit(null)} variant="ghost">Cancel</Button>
+              <Button onClick={save}>Save Persona</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {personas.map(persona => (
+              <div key={persona.id} className="flex items-center space-x-3 rounded-lg border p-2">
+                <PersonaAvatar persona={persona} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{persona.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{persona.systemPrompt}</p>
+                </div>
+                {persona.builtIn ? (
+                  <span className="text-xs text-gray-400">Built-in</span>
+                ) : (
+                  <>
+                    <Button onClick={() => edit(persona)} variant="ghost" size="icon" className="h-8 w-8" aria-label="Edit persona">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button onClick={() => onRemove(persona.id)} variant="ghost" size="icon" className="h-8 w-8 text-red-600" aria-label="Delete persona">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+            <Button onClick={() => edit(EMPTY_PERSONA)} variant="outline" className="w-full">
+              <Plus className="h-4 w-4 mr-1" />
+              New Persona
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
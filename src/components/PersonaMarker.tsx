@@ -0,0 +1,20 @@
+import { PersonaAvatar } from './PersonaAvatar'
+import type { Persona } from '../lib/personas/personas'
+
+interface PersonaMarkerProps {
+  persona: Persona
+}
+
+// Shown in the thread wherever the conversation switched persona
+export function PersonaMarker({ persona }: PersonaMarkerProps) {
+  return (
+    <div className="flex items-center my-4 text-xs text-gray-500">
+      <div className="flex-1 border-t border-gray-200" />
+      <div className="flex items-center space-x-2 px-3">
+        <PersonaAvatar persona={persona} className="h-5 w-5 text-xs" />
+        <span>Now chatting with {persona.name}</span>
+      </div>
+      <div className="flex-1 border-t border-gray-200" />
+    </div>
+  )
+}
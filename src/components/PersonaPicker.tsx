@@ -0,0 +1,54 @@
+import { useState } from 'react'
+import { Settings2 } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Button } from './ui/button'
+import { PersonaAvatar } from './PersonaAvatar'
+import { PersonaManager } from './PersonaManager'
+import { findPersona, type Persona } from '../lib/personas/personas'
+import { usePersonas } from '../hooks/use-personas'
+
+interface PersonaPickerProps {
+  personaId?: string
+  onChange: (persona: Persona) => void
+  disabled?: boolean
+}
+
+export function PersonaPicker({ personaId, onChange, disabled }: PersonaPickerProps) {
+  const { personas, savePersona, removePersona } = usePersonas()
+  const [managing, setManaging] = useState(false)
+  const current = findPersona(personas, personaId)
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Select
+        value={current.id}
+        onValueChange={(id) => onChange(findPersona(personas, id))}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-44 h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {personas.map(persona => (
+            <SelectItem key={persona.id} value={persona.id}>
+              <span className="flex items-center space-x-2">
+                <PersonaAvatar persona={persona} className="h-5 w-5 text-xs" />
+                <span>{persona.name}</span>
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button onClick={() => setManaging(true)} variant="ghost" size="icon" className="h-9 w-9" aria-label="Manage personas">
+        <Settings2 className="h-4 w-4" />
+      </Button>
+      <PersonaManager
+        personas={personas}
+        open={managing}
+        onOpenChange={setManaging}
+        onSave={savePersona}
+        onRemove={removePersona}
+      />
+    </div>
+  )
+}
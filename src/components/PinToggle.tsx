@@ -0,0 +1,24 @@
+import { Pin, PinOff } from 'lucide-react'
+import { Button } from './ui/button'
+import { cn } from '../lib/utils'
+
+interface PinToggleProps {
+  pinned?: boolean
+  onToggle: () => void
+}
+
+// Pinned messages are always kept in Albert's context
+export function PinToggle({ pinned, onToggle }: PinToggleProps) {
+  return (
+    <Button
+      onClick={onToggle}
+      variant="ghost"
+      size="icon"
+      className={cn('h-6 w-6', pinned ? 'text-blue-600' : 'text-gray-400')}
+      aria-label={pinned ? 'Unpin message' : 'Pin message'}
+      title={pinned ? 'Pinned: always kept in context' : 'Pin so it is never summarised away'}
+    >
+      {pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+    </Button>
+  )
+}
@@ -0,0 +1,53 @@
+import { Loader2, Mic } from 'lucide-react'
+import { Button } from './ui/button'
+import { cn } from '../lib/utils'
+import { usePushToTalk } from '../hooks/use-push-to-talk'
+import type { TranscriptionBackend } from '../lib/voice/transcription'
+
+interface PushToTalkButtonProps {
+  onTranscript: (text: string) => void
+  backend?: TranscriptionBackend
+  disabled?: boolean
+}
+
+// Hold to talk (mouse, touch or Space while focused); release to transcribe
+export function PushToTalkButton({ onTranscript, backend, disabled }: PushToTalkButtonProps) {
+  const { supported, status, error, start, stop } = usePushToTalk({ onTranscript, backend })
+  if (!supported) return null
+
+  const label = status === 'recording' ? 'Listening… release to stop' : status === 'transcribing' ? 'Transcribing…' : 'Hold to talk'
+
+  return (
+    <div className="relative shrink-0">
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        disabled={disabled || status === 'transcribing'}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          void start()
+        }}
+        onPointerUp={stop}
+        onPointerCancel={stop}
+        onKeyDown={(e) => {
+          if (e.key === ' ' && !e.repeat) {
+            e.preventDefault()
+            void start()
+          }
+        }}
+        onKeyUp={(e) => e.key === ' ' && stop()}
+        className={cn('text-gray-500 touch-none', status === 'recording' && 'bg-red-50 text-red-600 animate-pulse')}
+        aria-label={label}
+        title={error ?? label}
+      >
+        {status === 'transcribing' ? <Loader2 className="h-5 w-5 animate-spin" /> : <Mic className="h-5 w-5" />}
+      </Button>
+      {error && status === 'idle' && (
+        <p role="alert" className="absolute bottom-full left-0 mb-2 w-56 rounded-md bg-gray-900 px-2 py-1 text-xs text-white">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
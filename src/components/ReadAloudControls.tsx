@@ -0,0 +1,58 @@
+import { Pause, Play, Square, Volume2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useSpeech } from '../hooks/use-speech'
+import { SPEECH_RATES } from '../lib/voice/speech'
+import type { Message } from '../lib/chat/types'
+
+interface ReadAloudControlsProps {
+  message: Message
+}
+
+export function ReadAloudControls({ message }: ReadAloudControlsProps) {
+  const speech = useSpeech()
+  if (!speech.supported || !message.content.trim()) return null
+
+  const active = speech.messageId === message.id
+
+  if (!active) {
+    return (
+      <Button
+        onClick={() => speech.speak(message.id, message.content)}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-gray-500"
+        aria-label="Read aloud"
+      >
+        <Volume2 className="h-3.5 w-3.5" />
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Button
+        onClick={speech.paused ? speech.resume : speech.pause}
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-blue-600"
+        aria-label={speech.paused ? 'Resume reading' : 'Pause reading'}
+      >
+        {speech.paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+      </Button>
+      <Button onClick={speech.stop} variant="ghost" size="icon" className="h-6 w-6 text-gray-500" aria-label="Stop reading">
+        <Square className="h-3 w-3 fill-current" />
+      </Button>
+      <Select value={String(speech.rate)} onValueChange={(value) => speech.setRate(Number(value))}>
+        <SelectTrigger className="h-6 w-16 px-2 text-xs" aria-label="Speaking rate">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SPEECH_RATES.map(rate => (
+            <SelectItem key={rate} value={String(rate)}>{rate}×</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import { useEffect, useMemo, useState } from 'react'
+import { endOfDay, format } from 'date-fns'
+import type { DateRange } from 'react-day-picker'
+import { CalendarDays, Gamepad2, Image, MessageSquare, Video, X } from 'lucide-react'
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Calendar } from './ui/calendar'
+import { Button } from './ui/button'
+import { buildSearchIndex, search, type SearchFilters, type SearchableType } from '../lib/search/search-index'
+import { flashMessage } from '../lib/chat/flash-message'
+import type { Conversation } from '../lib/chat/types'
+
+const ALL = 'all'
+
+const TYPE_ICONS: Record<SearchableType, typeof MessageSquare> = {
+  text: MessageSquare,
+  image: Image,
+  video: Video,
+  game: Gamepad2
+}
+
+interface SearchPaletteProps {
+  conversations: Conversation[]
+  // Should make the conversation active; the message is then flashed
+  onJump: (conversationId: string, messageId: string) => void
+}
+
+export function SearchPalette({ conversations, onJump }: SearchPaletteProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [conversationId, setConversationId] = useState(ALL)
+  const [role, setRole] = useState(ALL)
+  const [type, setType] = useState(ALL)
+  const [range, setRange] = useState<DateRange | undefined>()
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault()
+        setOpen(previous => !previous)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  // Only build the index while the palette is open
+  const index = useMemo(() => open ? buildSearchIndex(conversations) : null, [open, conversations])
+
+  const hits = useMemo(() => {
+    if (!index) return []
+
+    const filters: SearchFilters = {
+      conversationId: conversationId === ALL ? undefined : conversationId,
+      role: role === ALL ? undefined : role as SearchFilters['role'],
+      type: type === ALL ? undefined : type as SearchableType,
+      from: range?.from,
+      // Include the whole of the last selected day
+      to: range?.to ? endOfDay(range.to) : undefined
+    }
+    return search(index, query, filters)
+  }, [index, query, conversationId, role, type, range])
+
+  const jump = (targetConversationId: string, messageId: string) => {
+    setOpen(false)
+    onJump(targetConversationId, messageId)
+    flashMessage(messageId)
+  }
+
+  const rangeLabel = range?.from
+    ? `${format(range.from, 'MMM d')}${range.to ? ` – ${format(range.to, 'MMM d')}` : ''}`
+    : 'Any date'
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+      <CommandInput value={query} onValueChange={setQuery} placeholder="Search all conversations…" />
+
+      <div className="flex flex-wrap items-center gap-2 border-b p-2">
+        <Select value={conversationId} onValueChange={setConversationId}>
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All conversations</SelectItem>
+            {conversations.map(conversation => (
+              <SelectItem key={conversation.id} value={conversation.id}>{conversation.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={role} onValueChange={setRole}>
+          <SelectTrigger className="w-28 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Anyone</SelectItem>
+            <SelectItem value="user">You</SelectItem>
+            <SelectItem value="assistant">Albert</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="w-28 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any type</SelectItem>
+            <SelectItem value="text">Text</SelectItem>
+            <SelectItem value="image">Images</SelectItem>
+            <SelectItem value="video">Videos</SelectItem>
+            <SelectItem value="game">Games</SelectItem>
+          </SelectContent>
+        </Select>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 text-xs font-normal">
+              <CalendarDays className="h-3.5 w-3.5 mr-1" />
+              {rangeLabel}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar mode="range" selected={range} onSelect={setRange} disabled={{ after: new Date() }} />
+          </PopoverContent>
+        </Popover>
+        {range && (
+          <Button onClick={() => setRange(undefined)} variant="ghost" size="icon" className="h-8 w-8" aria-label="Clear dates">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <CommandList>
+        <CommandEmpty>{query.trim() ? 'No messages found.' : 'Type to search your conversations.'}</CommandEmpty>
+        {hits.length > 0 && (
+          <CommandGroup heading={`${hits.length} ${hits.length === 1 ? 'result' : 'results'}`}>
+            {hits.map(hit => {
+              const Icon = TYPE_ICONS[(hit.message.type ?? 'text') as SearchableType] ?? MessageSquare
+              return (
+                <CommandItem
+                  key={hit.message.id}
+                  value={hit.message.id}
+                  onSelect={() => jump(hit.conversationId, hit.message.id)}
+                  className="flex items-start space-x-2"
+                >
+                  <Icon className="mt-0.5 shrink-0 text-gray-400" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span className="truncate">
+                        {hit.message.role === 'user' ? 'You' : 'Albert'} in {hit.conversationTitle}
+                      </span>
+                      <span className="shrink-0 pl-2">{format(new Date(hit.message.timestamp), 'MMM d, p')}</span>
+                    </div>
+                    <p className="text-sm text-gray-800 line-clamp-2">
+                      {hit.snippet.map((part, i) => part.match
+                        ? <mark key={i} className="bg-yellow-200 rounded-sm px-0.5">{part.text}</mark>
+                        : <span key={i}>{part.text}</span>
+                      )}
+                    </p>
+                  </div>
+                </CommandItem>
+              )
+            })}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
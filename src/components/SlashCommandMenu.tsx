@@ -0,0 +1,60 @@
+import type { ReactNode } from 'react'
+import { AlertCircle } from 'lucide-react'
+import { Popover, PopoverAnchor, PopoverContent } from './ui/popover'
+import { Command, CommandGroup, CommandItem, CommandList } from './ui/command'
+import type { CommandSuggestion } from '../lib/commands/registry'
+
+interface SlashCommandMenuProps {
+  open: boolean
+  suggestions: CommandSuggestion[]
+  selectedIndex: number
+  error: string | null
+  onPick: (suggestion: CommandSuggestion) => void
+  // The composer the menu is anchored to
+  children: ReactNode
+}
+
+export function SlashCommandMenu({ open, suggestions, selectedIndex, error, onPick, children }: SlashCommandMenuProps) {
+  const selected = suggestions[selectedIndex]
+
+  return (
+    <Popover open={open}>
+      <PopoverAnchor asChild>
+        <div className="w-full">
+          {children}
+          {error && (
+            <p role="alert" className="mt-2 flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-1 shrink-0" />
+              {error}
+            </p>
+          )}
+        </div>
+      </PopoverAnchor>
+      <PopoverContent
+        side="top"
+        align="start"
+        className="w-80 p-0"
+        // Keep typing in the composer; the menu is driven from its key handler
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <Command shouldFilter={false} value={selected?.completion}>
+          <CommandList>
+            <CommandGroup heading="Commands">
+              {suggestions.map(suggestion => (
+                <CommandItem
+                  key={suggestion.completion}
+                  value={suggestion.completion}
+                  onSelect={() => onPick(suggestion)}
+                  className="flex flex-col items-start"
+                >
+                  <span className="font-mono text-sm">{suggestion.label}</span>
+                  {suggestion.description && <span className="text-xs text-gray-500">{suggestion.description}</span>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,26 @@
+import { CornerLeftUp } from 'lucide-react'
+import { flashMessage } from '../lib/chat/flash-message'
+import type { Message } from '../lib/chat/types'
+
+interface SourceImageLinkProps {
+  message: Message
+  // Thumbnail of the original, when it's still in the conversation
+  source?: Message
+}
+
+// Shown under an edited image; jumps back to the image it was made from
+export function SourceImageLink({ message, source }: SourceImageLinkProps) {
+  if (!message.sourceImageId) return null
+  const sourceId = message.sourceImageId
+
+  return (
+    <button
+      onClick={() => flashMessage(sourceId)}
+      className="mt-1 flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+    >
+      <CornerLeftUp className="h-3 w-3" />
+      {source?.mediaUrl && <img src={source.mediaUrl} alt="" className="h-5 w-5 rounded object-cover" />}
+      <span>Edited from {source ? 'this image' : 'an earlier image'}</span>
+    </button>
+  )
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react'
+import { cn } from '../lib/utils'
+
+interface SpokenTextProps {
+  sentences: string[]
+  index: number
+}
+
+// Shown in place of the rendered markdown while a reply is read aloud, with
+// the current sentence highlighted and kept in view
+export function SpokenText({ sentences, index }: SpokenTextProps) {
+  const currentRef = useRef<HTMLSpanElement>(null)
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [index])
+
+  return (
+    <p className="text-sm leading-relaxed">
+      {sentences.map((sentence, i) => (
+        <span
+          key={i}
+          ref={i === index ? currentRef : undefined}
+          className={cn('rounded-sm transition-colors', i === index ? 'bg-yellow-200' : i < index && 'text-gray-500')}
+        >
+          {sentence}{' '}
+        </span>
+      ))}
+    </p>
+  )
+}
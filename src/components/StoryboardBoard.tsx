@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import {
+  closestCenter,
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Download, GripVertical, ImageOff, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { AspectRatio } from './ui/aspect-ratio'
+import { Textarea } from './ui/textarea'
+import { Input } from './ui/input'
+import { Button } from './ui/button'
+import { cn } from '../lib/utils'
+import { exportPictureBook } from '../lib/stories/picture-book'
+import type { Scene, Storyboard } from '../lib/stories/storyboard'
+
+interface SceneCardProps {
+  scene: Scene
+  index: number
+  onEdit: (text: string) => void
+  onRedraw: () => void
+}
+
+// Follows the pointer while a scene is being dragged
+function ScenePreview({ scene, index }: { scene: Scene; index: number }) {
+  return (
+    <div className="rotate-1 rounded-xl border bg-white p-2 shadow-lg">
+      <p className="flex items-center pb-1 text-xs font-medium text-gray-500">
+        <GripVertical className="h-4 w-4" />
+        Scene {index + 1}
+      </p>
+      <AspectRatio ratio={3 / 2} className="overflow-hidden rounded-lg bg-gray-100">
+        {scene.imageUrl && <img src={scene.imageUrl} alt={scene.illustration} className="h-full w-full object-cover" />}
+      </AspectRatio>
+      <p className="mt-2 px-1 text-sm text-gray-800 line-clamp-3">{scene.text}</p>
+    </div>
+  )
+}
+
+function SceneCard({ scene, index, onEdit, onRedraw }: SceneCardProps) {
+  const [draft, setDraft] = useState(scene.text)
+  const [editing, setEditing] = useState(false)
+  const draggable = useDraggable({ id: scene.id })
+  const droppable = useDroppable({ id: scene.id })
+
+  const setRefs = (node: HTMLDivElement | null) => {
+    draggable.setNodeRef(node)
+    droppable.setNodeRef(node)
+  }
+
+  return (
+    <div
+      ref={setRefs}
+      className={cn(
+        'rounded-xl border bg-white p-2 shadow-sm transition-colors',
+        draggable.isDragging && 'opacity-40',
+        droppable.isOver && !draggable.isDragging && 'border-blue-400 bg-blue-50'
+      )}
+    >
+      <div className="flex items-center justify-between pb-1">
+        <button
+          {...draggable.attributes}
+          {...draggable.listeners}
+          className="flex cursor-grab items-center text-xs font-medium text-gray-500 active:cursor-grabbing"
+          aria-label={`Move scene ${index + 1}`}
+        >
+          <GripVertical className="h-4 w-4" />
+          Scene {index + 1}
+        </button>
+        {(scene.imageStatus === 'ready' || scene.imageStatus === 'failed') && (
+          <Button onClick={onRedraw} variant="ghost" size="icon" className="h-6 w-6" aria-label="Redraw picture">
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      <AspectRatio ratio={3 / 2} className="overflow-hidden rounded-lg bg-gray-100">
+        {scene.imageUrl && scene.imageStatus !== 'generating' ? (
+          <img src={scene.imageUrl} alt={scene.illustration} className="h-full w-full object-cover" />
+        ) : (
+          <div className="flex h-full flex-col items-center justify-center text-gray-400">
+            {scene.imageStatus === 'failed' ? (
+              <>
+                <ImageOff className="h-6 w-6 mb-1" />
+                <span className="text-xs">Picture failed</span>
+              </>
+            ) : (
+              <Loader2 className={cn('h-6 w-6', scene.imageStatus === 'generating' && 'animate-spin')} />
+            )}
+          </div>
+        )}
+      </AspectRatio>
+
+      {editing ? (
+        <Textarea
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => {
+            setEditing(false)
+            if (draft.trim() && draft !== scene.text) onEdit(draft.trim())
+            else setDraft(scene.text)
+          }}
+          className="mt-2 min-h-16 text-sm"
+        />
+      ) : (
+        <p
+          onClick={() => setEditing(true)}
+          className="mt-2 cursor-text rounded px-1 text-sm text-gray-800 hover:bg-gray-50"
+          title="Click to edit"
+        >
+          {scene.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface StoryboardBoardProps {
+  board: Storyboard
+  onReorder: (sceneId: string, targetId: string) => void
+  onEditScene: (sceneId: string, text: string) => void
+  onRedrawScene: (sceneId: string) => void
+  onRename: (title: string) => void
+  onDelete: () => void
+}
+
+export function StoryboardBoard({ board, onReorder, onEditScene, onRedrawScene, onRename, onDelete }: StoryboardBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+  // A small movement threshold keeps clicks on the text and buttons working
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDraggingId(null)
+    if (over && active.id !== over.id) onReorder(String(active.id), String(over.id))
+  }
+
+  const exportBook = async () => {
+    setExporting(true)
+    try {
+      await exportPictureBook(board)
+    } catch (error) {
+      console.error('Picture book export failed:', error)
+      toast.error("Couldn't export the picture book.")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const draggingIndex = board.scenes.findIndex(scene => scene.id === draggingId)
+  const drawing = board.scenes.some(scene => scene.imageStatus === 'generating' || scene.imageStatus === 'pending')
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Input
+          key={board.id}
+          defaultValue={board.title}
+          onBlur={(e) => e.target.value !== board.title && onRename(e.target.value)}
+          className="border-0 px-1 text-lg font-semibold shadow-none focus-visible:ring-1"
+          aria-label="Storyboard title"
+        />
+        <div className="flex shrink-0 space-x-2">
+          <Button onClick={() => void exportBook()} disabled={exporting || drawing} variant="outline" size="sm">
+            {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+            Picture Book
+          </Button>
+          <Button onClick={onDelete} variant="ghost" size="icon" className="h-8 w-8 text-gray-500" aria-label="Delete storyboard">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {board.characters && (
+        <p className="rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-900">
+          <span className="font-medium">Characters: </span>{board.characters}
+        </p>
+      )}
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={({ active }) => setDraggingId(String(active.id))}
+        onDragCancel={() => setDraggingId(null)}
+        onDragEnd={handleDragEnd}
+      >
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+          {board.scenes.map((scene, index) => (
+            <SceneCard
+              key={scene.id}
+              scene={scene}
+              index={index}
+              onEdit={(text) => onEditScene(scene.id, text)}
+              onRedraw={() => onRedrawScene(scene.id)}
+            />
+          ))}
+        </div>
+        <DragOverlay>
+          {draggingIndex !== -1 && <ScenePreview scene={board.scenes[draggingIndex]} index={draggingIndex} />}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { BookOpen, Loader2, Plus, Sparkles } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import { Button } from './ui/button'
+import { StoryboardBoard } from './StoryboardBoard'
+import { useStoryboards } from '../hooks/use-storyboards'
+import { cn } from '../lib/utils'
+import { STYLE_PRESETS } from '../lib/images/studio'
+import { DEFAULT_SCENE_COUNT, MAX_SCENES, MIN_SCENES, StoryboardError } from '../lib/stories/storyboard'
+import type { ChatProvider } from '../lib/providers/types'
+
+interface StoryboardDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Pre-fills the idea, e.g. from the story the user was just writing
+  initialIdea?: string
+  provider?: ChatProvider
+}
+
+export function StoryboardDialog({ open, onOpenChange, initialIdea = '', provider }: StoryboardDialogProps) {
+  const storyboards = useStoryboards(provider)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const board = storyboards.storyboards.find(candidate => candidate.id === selectedId)
+
+  const create = async (idea: string, sceneCount: number, style: string) => {
+    try {
+      const created = await storyboards.create(idea, sceneCount, style)
+      setSelectedId(created.id)
+    } catch (error) {
+      if (error instanceof StoryboardError) toast.error(error.message)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Storyboard</DialogTitle>
+          <DialogDescription>Albert splits your story into scenes and draws a picture for each one.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[12rem_1fr] gap-4">
+          <div className="flex flex-col border-r pr-3">
+            <Button onClick={() => setSelectedId(null)} variant="outline" size="sm" className="justify-start">
+              <Plus className="h-4 w-4 mr-1" />
+              New Storyboard
+            </Button>
+            <ScrollArea className="mt-2 max-h-[60vh]">
+              {storyboards.storyboards.map(candidate => (
+                <button
+                  key={candidate.id}
+                  onClick={() => setSelectedId(candidate.id)}
+                  className={cn(
+                    'flex w-full items-center space-x-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-gray-100',
+                    candidate.id === selectedId && 'bg-gray-100 font-medium'
+                  )}
+                >
+                  <BookOpen className="h-4 w-4 shrink-0 text-gray-400" />
+                  <span className="truncate">{candidate.title}</span>
+                </button>
+              ))}
+            </ScrollArea>
+          </div>
+
+          <ScrollArea className="max-h-[70vh] pr-2">
+            {board ? (
+              <StoryboardBoard
+                board={board}
+                onReorder={(sceneId, targetId) => storyboards.reorder(board.id, sceneId, targetId)}
+                onEditScene={(sceneId, text) => storyboards.editScene(board.id, sceneId, { text })}
+                onRedrawScene={(sceneId) => void storyboards.illustrateScene(board.id, sceneId)}
+                onRename={(title) => storyboards.rename(board.id, title)}
+                onDelete={() => {
+                  storyboards.remove(board.id)
+                  setSelectedId(null)
+                }}
+              />
+            ) : (
+              // Dialog content only mounts while open, so each opening starts from the latest idea
+              <StoryboardForm initialIdea={initialIdea} planning={storyboards.planning} onCreate={create} />
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface StoryboardFormProps {
+  initialIdea: string
+  planning: boolean
+  onCreate: (idea: string, sceneCount: number, style: string) => Promise<void>
+}
+
+function StoryboardForm({ initialIdea, planning, onCreate }: StoryboardFormProps) {
+  const [idea, setIdea] = useState(initialIdea)
+  const [sceneCount, setSceneCount] = useState(DEFAULT_SCENE_COUNT)
+  const [style, setStyle] = useState('cartoon')
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="storyboard-idea">Your story or idea</Label>
+        <Textarea
+          id="storyboard-idea"
+          value={idea}
+          onChange={(e) => setIdea(e.target.value)}
+          placeholder="A little dragon who is scared of the dark learns to make friends with the stars…"
+          className="min-h-40"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Scenes</Label>
+          <Select value={String(sceneCount)} onValueChange={(value) => setSceneCount(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_SCENES - MIN_SCENES + 1 }, (_, i) => MIN_SCENES + i).map(count => (
+                <SelectItem key={count} value={String(count)}>{count} scenes</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Picture style</Label>
+          <Select value={style} onValueChange={setStyle}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STYLE_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button onClick={() => void onCreate(idea, sceneCount, style)} disabled={planning || !idea.trim()} className="w-full">
+        {planning ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+        {planning ? 'Planning scenes…' : 'Make Storyboard'}
+      </Button>
+    </div>
+  )
+}
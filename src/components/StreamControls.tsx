@@ -0,0 +1,36 @@
+import { Button } from './ui/button'
+import { Square, StepForward } from 'lucide-react'
+import type { Message } from '../lib/chat/types'
+
+interface StreamControlsProps {
+  message: Message
+  onStop: () => void
+  onContinue: () => void
+}
+
+export function StreamControls({ message, onStop, onContinue }: StreamControlsProps) {
+  if (message.status === 'streaming') {
+    return (
+      <Button onClick={onStop} variant="outline" size="sm" className="mt-2">
+        <Square className="h-3 w-3 mr-1 fill-current" />
+        Stop
+      </Button>
+    )
+  }
+
+  if (message.status === 'stopped' || message.status === 'truncated') {
+    return (
+      <div className="mt-2 flex items-center space-x-2">
+        <span className="text-xs text-gray-500">
+          {message.status === 'stopped' ? 'Stopped' : 'Answer was cut short'}
+        </span>
+        <Button onClick={onContinue} variant="outline" size="sm">
+          <StepForward className="h-4 w-4 mr-1" />
+          Continue
+        </Button>
+      </div>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,194 @@
+import { useState, type ChangeEvent } from 'react'
+import toast from 'react-hot-toast'
+import { Layers, Loader2, Plus, Sparkles, Upload } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { DeckView } from './DeckView'
+import { FlashcardReview } from './FlashcardReview'
+import { useDecks } from '../hooks/use-decks'
+import { cn } from '../lib/utils'
+import { dueCards } from '../lib/study/decks'
+import { CardFileError, readCardFile, type ParsedCards } from '../lib/study/card-files'
+import { CARD_COUNTS, conversationStudyText, DEFAULT_CARD_COUNT, FlashcardError } from '../lib/study/generate'
+import type { ChatProvider } from '../lib/providers/types'
+import type { Conversation } from '../lib/chat/types'
+
+type DeckSource = 'conversation' | 'text' | 'file'
+
+interface StudyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Offered as a source for new decks
+  conversation?: Conversation | null
+  provider?: ChatProvider
+}
+
+export function StudyDialog({ open, onOpenChange, conversation, provider }: StudyDialogProps) {
+  const decks = useDecks(provider)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [reviewing, setReviewing] = useState(false)
+  const [source, setSource] = useState<DeckSource>(conversation?.messages.length ? 'conversation' : 'text')
+  const [text, setText] = useState('')
+  const [cardCount, setCardCount] = useState(DEFAULT_CARD_COUNT)
+
+  const deck = decks.decks.find(candidate => candidate.id === selectedId)
+
+  const select = (deckId: string | null) => {
+    setSelectedId(deckId)
+    setReviewing(false)
+  }
+
+  const generate = async () => {
+    const fromConversation = source === 'conversation' && conversation
+    try {
+      const created = fromConversation
+        ? await decks.generate(conversationStudyText(conversation), cardCount, conversation.title)
+        : await decks.generate(text, cardCount)
+      select(created.id)
+      if (!fromConversation) setText('')
+    } catch (error) {
+      if (error instanceof FlashcardError) toast.error(error.message)
+    }
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    let parsed: ParsedCards
+    try {
+      parsed = await readCardFile(file)
+    } catch (error) {
+      if (error instanceof CardFileError) toast.error(error.message)
+      return
+    }
+
+    const { cards, skipped } = parsed
+    const created = decks.create(file.name.replace(/\.[^.]+$/, ''), cards, file.name)
+    select(created.id)
+    if (skipped) toast(`Skipped ${skipped} row${skipped === 1 ? '' : 's'} without a front and a back`)
+  }
+
+  const canGenerate = source === 'conversation' ? !!conversation?.messages.length : !!text.trim()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Study</DialogTitle>
+          <DialogDescription>Turn what you've learned into flashcards, and Albert will tell you when to review each one.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[12rem_1fr] gap-4">
+          <div className="flex flex-col border-r pr-3">
+            <Button onClick={() => select(null)} variant="outline" size="sm" className="justify-start">
+              <Plus className="h-4 w-4 mr-1" />
+              New Deck
+            </Button>
+            <ScrollArea className="mt-2 max-h-[60vh]">
+              {decks.decks.map(candidate => {
+                const due = dueCards(candidate).length
+                return (
+                  <button
+                    key={candidate.id}
+                    onClick={() => select(candidate.id)}
+                    className={cn(
+                      'flex w-full items-center space-x-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-gray-100',
+                      candidate.id === selectedId && 'bg-gray-100 font-medium'
+                    )}
+                  >
+                    <Layers className="h-4 w-4 shrink-0 text-gray-400" />
+                    <span className="flex-1 truncate">{candidate.title}</span>
+                    {due > 0 && <Badge variant="secondary" className="px-1.5 text-xs">{due}</Badge>}
+                  </button>
+                )
+              })}
+            </ScrollArea>
+          </div>
+
+          <ScrollArea className="max-h-[70vh] pr-2">
+            {deck && reviewing ? (
+              <FlashcardReview
+                key={deck.id}
+                deck={deck}
+                onReview={(cardId, grade) => decks.review(deck.id, cardId, grade)}
+                onExit={() => setReviewing(false)}
+              />
+            ) : deck ? (
+              <DeckView
+                deck={deck}
+                onStudy={() => setReviewing(true)}
+                onAddCards={(cards) => decks.addToDeck(deck.id, cards)}
+                onRename={(title) => decks.rename(deck.id, title)}
+                onDelete={() => {
+                  decks.remove(deck.id)
+                  select(null)
+                }}
+              />
+            ) : (
+              <Tabs value={source} onValueChange={(value) => setSource(value as DeckSource)} className="space-y-4">
+                <TabsList>
+                  <TabsTrigger value="conversation" disabled={!conversation?.messages.length}>This Conversation</TabsTrigger>
+                  <TabsTrigger value="text">Paste Text</TabsTrigger>
+                  <TabsTrigger value="file">Import File</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="conversation">
+                  <p className="rounded-lg bg-gray-50 px-3 py-2 text-sm text-gray-600">
+                    Albert will pick the facts worth remembering from <span className="font-medium">{conversation?.title}</span>.
+                  </p>
+                </TabsContent>
+                <TabsContent value="text" className="space-y-1">
+                  <Label htmlFor="study-text">Notes, an article or a chapter</Label>
+                  <Textarea
+                    id="study-text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="Photosynthesis is how plants turn sunlight, water and carbon dioxide into sugar…"
+                    className="min-h-40"
+                  />
+                </TabsContent>
+                <TabsContent value="file">
+                  <label className="flex cursor-pointer flex-col items-center rounded-lg border-2 border-dashed border-gray-300 p-6 text-sm text-gray-600 hover:border-blue-400">
+                    <Upload className="h-6 w-6 mb-2 text-gray-400" />
+                    Select a CSV or an Anki plain-text export
+                    <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" className="sr-only" onChange={handleFile} />
+                  </label>
+                </TabsContent>
+
+                {source !== 'file' && (
+                  <div className="flex items-end space-x-2">
+                    <div className="space-y-1">
+                      <Label>Cards</Label>
+                      <Select value={String(cardCount)} onValueChange={(value) => setCardCount(Number(value))}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CARD_COUNTS.map(count => (
+                            <SelectItem key={count} value={String(count)}>{count} cards</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={() => void generate()} disabled={decks.generating || !canGenerate} className="flex-1">
+                      {decks.generating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+                      {decks.generating ? 'Writing flashcards…' : 'Make Flashcards'}
+                    </Button>
+                  </div>
+                )}
+              </Tabs>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
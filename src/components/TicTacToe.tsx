@@ -1,93 +1,162 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Badge } from './ui/badge'
-import { RotateCcw, Trophy, Gamepad2 } from 'lucide-react'
-
-export interface GameState {
-  board: (string | null)[]
-  currentPlayer: 'X' | 'O'
-  winner: string | null
-  gameOver: boolean
-  score: { player: number; albert: number; draws: number }
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Slider } from './ui/slider'
+import { RotateCcw, Trophy, Gamepad2, Undo2, Redo2, History, Share2, BarChart3 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { GameReplay } from './GameReplay'
+import { GameStats } from './GameStats'
+import { useGameStats } from '../hooks/use-game-stats'
+import { boardFromMoves, cellName, toNotation, type MoveRecord } from '../lib/games/move-history'
+import type { GameRendererProps } from '../lib/games/registry'
+import {
+  BOARD_PRESETS,
+  CLASSIC_BOARD,
+  chooseMove,
+  createGameState,
+  DIFFICULTIES,
+  findWinningLine,
+  GAME_MODES,
+  isAlbertTurn,
+  playerLabel,
+  playMove,
+  type BoardConfig,
+  type Difficulty,
+  type GameState,
+  type Player
+} from '../lib/games/tictactoe'
+
+export type { GameState }
+
+const ALBERT_THINKING_MS = 500
+const DEMO_DELAY_RANGE = { min: 200, max: 2000, default: 800 }
 
 interface TicTacToeProps {
   onMove: (gameState: GameState) => void
+  // Result is from the human's side (X in two-player and demo games)
   onGameEnd: (result: 'win' | 'lose' | 'draw') => void
+  /** @deprecated Albert's moves now come from the built-in engine; this is ignored. */
   albertMove?: number
+  defaultDifficulty?: Difficulty
+  defaultBoard?: BoardConfig
+  initialState?: GameState
 }
 
-export function TicTacToe({ onMove, onGameEnd, albertMove }: TicTacToeProps) {
-  const [gameState, setGameState] = useState<GameState>({
-    board: Array(9).fill(null),
-    currentPlayer: 'X',
-    winner: null,
-    gameOver: false,
-    score: { player: 0, albert: 0, draws: 0 }
-  })
-
-  const checkWinner = (board: (string | null)[]): string | null => {
-    const lines = [
-      [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-      [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
-      [0, 4, 8], [2, 4, 6] // diagonals
-    ]
-
-    for (let i = 0; i < lines.length; i++) {
-      const [a, b, c] = lines[i]
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return board[a]
-      }
-    }
-    return null
-  }
+const CELL_SIZES: Record<number, string> = {
+  3: 'h-20 w-20 text-3xl',
+  4: 'h-14 w-14 text-2xl',
+  5: 'h-12 w-12 text-xl'
+}
+
+const getCellSize = (size: number) => CELL_SIZES[size] ?? 'h-6 w-6 min-w-0 p-0 text-xs'
+
+export function TicTacToe({
+  onMove,
+  onGameEnd,
+  defaultDifficulty = 'hard',
+  defaultBoard = CLASSIC_BOARD,
+  initialState
+}: TicTacToeProps) {
+  const [difficulty, setDifficulty] = useState<Difficulty>(defaultDifficulty)
+  const [redoStack, setRedoStack] = useState<MoveRecord[]>([])
+  const [replaying, setReplaying] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [demoDelay, setDemoDelay] = useState(DEMO_DELAY_RANGE.default)
+  const { recordGame } = useGameStats('tictactoe')
+  const [gameState, setGameState] = useState<GameState>(() => initialState ?? createGameState(defaultBoard))
+
+  const makeMove = useCallback((index: number) => {
+    const newState = playMove(gameState, index)
+    if (newState === gameState) return
 
-  const makeMove = (index: number) => {
-    if (gameState.board[index] || gameState.gameOver) return
-
-    const newBoard = [...gameState.board]
-    newBoard[index] = gameState.currentPlayer
-
-    const winner = checkWinner(newBoard)
-    const isDraw = !winner && newBoard.every(cell => cell !== null)
-    const gameOver = winner !== null || isDraw
-
-    const newScore = { ...gameState.score }
-    if (gameOver) {
-      if (winner === 'X') {
-        newScore.player += 1
-        onGameEnd('win')
-      } else if (winner === 'O') {
-        newScore.albert += 1
-        onGameEnd('lose')
-      } else {
-        newScore.draws += 1
-        onGameEnd('draw')
+    if (newState.gameOver) {
+      const result = !newState.winner ? 'draw' : newState.winner === newState.humanPlayer ? 'win' : 'lose'
+      onGameEnd(result)
+
+      // Only games against Albert count towards lifetime stats
+      if (newState.mode === 'vs-albert') {
+        recordGame({
+          gameId: 'tictactoe',
+          result,
+          moveCount: newState.moves.length,
+          opening: newState.moves.slice(0, 2).map(move => cellName(move.index, newState)).join(' '),
+          variant: `${newState.size}x${newState.size}/${newState.winLength}`
+        })
       }
     }
 
+    setGameState(newState)
+    setRedoStack([])
+    onMove(newState)
+  }, [gameState, onMove, onGameEnd, recordGame])
+
+  const restoreMoves = (moves: MoveRecord[]) => {
     const newState = {
-      board: newBoard,
-      currentPlayer: gameState.currentPlayer === 'X' ? 'O' as const : 'X' as const,
-      winner,
-      gameOver,
-      score: newScore
+      ...gameState,
+      board: boardFromMoves(gameState, moves),
+      moves,
+      currentPlayer: moves.length % 2 === 0 ? 'X' as const : 'O' as const
     }
-
     setGameState(newState)
     onMove(newState)
   }
 
-  const resetGame = () => {
-    const newState = {
-      board: Array(9).fill(null),
-      currentPlayer: 'X' as const,
-      winner: null,
-      gameOver: false,
-      score: gameState.score
+  const isAlbertToMove = (moveCount: number) => {
+    const next: Player = moveCount % 2 === 0 ? 'X' : 'O'
+    return gameState.mode === 'vs-albert' && next !== gameState.humanPlayer
+  }
+
+  // Undo back to the player's turn so Albert doesn't immediately replay his move
+  const undo = () => {
+    const moves = [...gameState.moves]
+    const undone = [...redoStack]
+    do {
+      undone.push(moves.pop()!)
+    } while (moves.length > 0 && isAlbertToMove(moves.length))
+
+    setRedoStack(undone)
+    restoreMoves(moves)
+  }
+
+  const redo = () => {
+    const moves = [...gameState.moves]
+    const remaining = [...redoStack]
+    do {
+      moves.push(remaining.pop()!)
+    } while (remaining.length > 0 && isAlbertToMove(moves.length))
+
+    setRedoStack(remaining)
+    restoreMoves(moves)
+  }
+
+  const copyNotation = async () => {
+    try {
+      await navigator.clipboard.writeText(toNotation(gameState, gameState.moves))
+      toast.success('Game notation copied')
+    } catch {
+      toast.error('Could not copy to clipboard')
     }
+  }
+
+  const resetGame = (config: BoardConfig = gameState) => {
+    const newState = createGameState(config, gameState)
     setGameState(newState)
+    setRedoStack([])
+    setReplaying(false)
+    onMove(newState)
+  }
+
+  const changeMode = (id: string) => {
+    const option = GAME_MODES.find(candidate => candidate.id === id)
+    if (!option) return
+
+    // Scores mean something different in each mode, so start them afresh
+    const newState = createGameState(gameState, { mode: option.mode, humanPlayer: option.humanPlayer })
+    setGameState(newState)
+    setRedoStack([])
+    setReplaying(false)
     onMove(newState)
   }
 
@@ -102,15 +171,26 @@ export function TicTacToe({ onMove, onGameEnd, albertMove }: TicTacToeProps) {
 
   // Handle Albert's move
   useEffect(() => {
-    if (albertMove !== undefined && gameState.currentPlayer === 'O' && !gameState.gameOver) {
-      makeMove(albertMove)
-    }
-  }, [albertMove, gameState.currentPlayer, gameState.gameOver])
+    if (replaying || !isAlbertTurn(gameState)) return
+
+    const timer = setTimeout(() => {
+      const move = chooseMove(gameState.board, gameState.currentPlayer, difficulty, gameState)
+      if (move !== null) makeMove(move)
+    }, gameState.mode === 'demo' ? demoDelay : ALBERT_THINKING_MS)
+
+    return () => clearTimeout(timer)
+  }, [gameState, difficulty, demoDelay, replaying, makeMove])
+
+  const winningLine = gameState.winner ? findWinningLine(gameState.board, gameState) : null
 
   const getCellClass = (index: number) => {
     const value = gameState.board[index]
-    let baseClass = "h-20 w-20 text-3xl font-bold rounded-xl border-2 transition-all duration-200 hover:scale-105 focus:scale-105"
-    
+    let baseClass = `${getCellSize(gameState.size)} font-bold rounded-xl border-2 transition-all duration-200 hover:scale-105 focus:scale-105`
+
+    if (winningLine?.includes(index)) {
+      baseClass += " ring-2 ring-yellow-400"
+    }
+
     if (value === 'X') {
       baseClass += " bg-blue-100 text-blue-600 border-blue-300"
     } else if (value === 'O') {
@@ -122,26 +202,33 @@ export function TicTacToe({ onMove, onGameEnd, albertMove }: TicTacToeProps) {
     return baseClass
   }
 
+  const markColor = (player: Player) => player === 'X' ? "text-blue-600" : "text-red-600"
+  const albertPlayer: Player = gameState.humanPlayer === 'X' ? 'O' : 'X'
+
   const getStatusMessage = () => {
     if (gameState.gameOver) {
-      if (gameState.winner === 'X') {
-        return { text: "🎉 You Won!", color: "text-blue-600" }
-      } else if (gameState.winner === 'O') {
-        return { text: "🤖 Albert Won!", color: "text-red-600" }
-      } else {
+      if (!gameState.winner) {
         return { text: "🤝 It's a Draw!", color: "text-gray-600" }
       }
-    } else {
-      return gameState.currentPlayer === 'X' 
-        ? { text: "Your Turn (X)", color: "text-blue-600" }
-        : { text: "Albert's Turn (O)", color: "text-red-600" }
+      const winner = gameState.winner as Player
+      const label = playerLabel(gameState, winner)
+      return label === 'You'
+        ? { text: "🎉 You Won!", color: markColor(winner) }
+        : { text: `${gameState.mode === 'hot-seat' ? '🎉' : '🤖'} ${label} Won!`, color: markColor(winner) }
+    }
+
+    const player = gameState.currentPlayer
+    const label = playerLabel(gameState, player)
+    return {
+      text: label === 'You' ? `Your Turn (${player})` : `${label}'s Turn (${player})`,
+      color: markColor(player)
     }
   }
 
   const status = getStatusMessage()
 
   return (
-    <Card className="p-6 max-w-sm mx-auto bg-white/95 backdrop-blur-sm">
+    <Card className={`p-6 mx-auto bg-white/95 backdrop-blur-sm ${gameState.size > 5 ? 'max-w-lg' : 'max-w-sm'}`}>
       <div className="text-center mb-4">
         <div className="flex items-center justify-center mb-2">
           <Gamepad2 className="h-5 w-5 text-blue-600 mr-2" />
@@ -150,15 +237,82 @@ export function TicTacToe({ onMove, onGameEnd, albertMove }: TicTacToeProps) {
         <p className={`text-sm font-medium ${status.color}`}>{status.text}</p>
       </div>
 
+      {/* Mode */}
+      <div className="flex justify-center mb-2">
+        <Select
+          value={GAME_MODES.find(option => option.mode === gameState.mode && option.humanPlayer === gameState.humanPlayer)?.id}
+          onValueChange={changeMode}
+        >
+          <SelectTrigger className="w-[19rem] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GAME_MODES.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {gameState.mode === 'demo' && (
+        <div className="flex items-center space-x-3 mb-2 px-2">
+          <span className="text-xs text-gray-500 whitespace-nowrap">Speed</span>
+          <Slider
+            min={DEMO_DELAY_RANGE.min}
+            max={DEMO_DELAY_RANGE.max}
+            step={100}
+            // Slider runs slow → fast, so invert the delay
+            value={[DEMO_DELAY_RANGE.max + DEMO_DELAY_RANGE.min - demoDelay]}
+            onValueChange={([value]) => setDemoDelay(DEMO_DELAY_RANGE.max + DEMO_DELAY_RANGE.min - value)}
+          />
+        </div>
+      )}
+
+      {/* Board and difficulty */}
+      <div className="flex justify-center space-x-2 mb-4">
+        <Select
+          value={BOARD_PRESETS.find(preset => preset.config.size === gameState.size && preset.config.winLength === gameState.winLength)?.id}
+          onValueChange={(id) => {
+            const preset = BOARD_PRESETS.find(candidate => candidate.id === id)
+            if (preset) resetGame(preset.config)
+          }}
+        >
+          <SelectTrigger className="w-40 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BOARD_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={difficulty} onValueChange={(value) => setDifficulty(value as Difficulty)}>
+          <SelectTrigger className="w-36 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DIFFICULTIES.map(level => (
+              <SelectItem key={level.value} value={level.value}>
+                {level.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Score Board */}
       <div className="flex justify-center space-x-2 mb-4">
-        <Badge variant="outline" className="text-blue-600">
+        <Badge variant="outline" className={markColor(gameState.humanPlayer)}>
           <Trophy className="h-3 w-3 mr-1" />
-          You: {gameState.score.player}
+          {playerLabel(gameState, gameState.humanPlayer)}: {gameState.score.player}
         </Badge>
-        <Badge variant="outline" className="text-red-600">
+        <Badge variant="outline" className={markColor(albertPlayer)}>
           <Trophy className="h-3 w-3 mr-1" />
-          Albert: {gameState.score.albert}
+          {playerLabel(gameState, albertPlayer)}: {gameState.score.albert}
         </Badge>
         <Badge variant="outline" className="text-gray-600">
           Draws: {gameState.score.draws}
@@ -166,24 +320,67 @@ export function TicTacToe({ onMove, onGameEnd, albertMove }: TicTacToeProps) {
       </div>
 
       {/* Game Board */}
-      <div className="grid grid-cols-3 gap-2 mb-4">
-        {gameState.board.map((cell, index) => (
-          <Button
-            key={index}
-            className={getCellClass(index)}
-            onClick={() => makeMove(index)}
-            disabled={gameState.gameOver || gameState.currentPlayer === 'O' || !!cell}
-            variant="outline"
-          >
-            {cell}
-          </Button>
-        ))}
+      {replaying ? (
+        <div className="mb-4">
+          <GameReplay config={gameState} moves={gameState.moves} onClose={() => setReplaying(false)} />
+        </div>
+      ) : (
+        <div
+          className={`grid mb-4 justify-center ${gameState.size > 5 ? 'gap-0.5' : 'gap-2'}`}
+          style={{ gridTemplateColumns: `repeat(${gameState.size}, max-content)` }}
+        >
+          {gameState.board.map((cell, index) => (
+            <Button
+              key={index}
+              className={getCellClass(index)}
+              onClick={() => makeMove(index)}
+              disabled={gameState.gameOver || isAlbertTurn(gameState) || !!cell}
+              variant="outline"
+            >
+              {cell}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* History */}
+      <div className="flex justify-center space-x-2 mb-2">
+        <Button
+          onClick={undo}
+          variant="ghost"
+          size="sm"
+          disabled={gameState.gameOver || gameState.mode === 'demo' || gameState.moves.length === 0}
+        >
+          <Undo2 className="h-4 w-4 mr-1" />
+          Undo
+        </Button>
+        <Button
+          onClick={redo}
+          variant="ghost"
+          size="sm"
+          disabled={gameState.gameOver || gameState.mode === 'demo' || redoStack.length === 0}
+        >
+          <Redo2 className="h-4 w-4 mr-1" />
+          Redo
+        </Button>
+        {gameState.gameOver && (
+          <>
+            <Button onClick={() => setReplaying(true)} variant="ghost" size="sm" disabled={replaying}>
+              <History className="h-4 w-4 mr-1" />
+              Replay
+            </Button>
+            <Button onClick={copyNotation} variant="ghost" size="sm">
+              <Share2 className="h-4 w-4 mr-1" />
+              Export
+            </Button>
+          </>
+        )}
       </div>
 
       {/* Controls */}
       <div className="flex justify-center space-x-2">
         <Button
-          onClick={resetGame}
+          onClick={() => resetGame()}
           variant="outline"
           size="sm"
           className="flex items-center"
@@ -199,7 +396,23 @@ export function TicTacToe({ onMove, onGameEnd, albertMove }: TicTacToeProps) {
         >
           Reset Score
         </Button>
+        <Button
+          onClick={() => setShowStats(true)}
+          variant="outline"
+          size="sm"
+          className="text-gray-600"
+        >
+          <BarChart3 className="h-4 w-4 mr-1" />
+          Stats
+        </Button>
       </div>
+
+      <GameStats gameId="tictactoe" gameName="Tic Tac Toe" open={showStats} onOpenChange={setShowStats} />
     </Card>
   )
-}
\ No newline at end of file
+}
+
+// Adapter used by the game registry
+export function TicTacToeRenderer({ state, onStateChange, onGameEnd }: GameRendererProps<GameState>) {
+  return <TicTacToe initialState={state} onMove={onStateChange} onGameEnd={onGameEnd} />
+}
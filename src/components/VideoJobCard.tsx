@@ -0,0 +1,87 @@
+import { Ban, Film, Loader2, RotateCcw } from 'lucide-react'
+import { Progress } from './ui/progress'
+import { Badge, type BadgeProps } from './ui/badge'
+import { Button } from './ui/button'
+import { canRetryJob, isActiveJob, VIDEO_STATUS_LABELS, type VideoJob, type VideoJobStatus } from '../lib/video/jobs'
+import type { Message } from '../lib/chat/types'
+
+const BADGE_VARIANTS: Record<VideoJobStatus, BadgeProps['variant']> = {
+  queued: 'secondary',
+  running: 'default',
+  succeeded: 'outline',
+  failed: 'destructive',
+  cancelled: 'secondary'
+}
+
+interface VideoJobCardProps {
+  job: VideoJob
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  // Compact rows in the job list leave the finished video out
+  compact?: boolean
+}
+
+export function VideoJobCard({ job, onCancel, onRetry, compact }: VideoJobCardProps) {
+  const percent = Math.round(job.progress * 100)
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-white p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex min-w-0 items-start space-x-2">
+          <Film className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+          <p className="text-sm text-gray-900 line-clamp-2">{job.prompt}</p>
+        </div>
+        <Badge variant={BADGE_VARIANTS[job.status]} className="shrink-0">
+          {job.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {VIDEO_STATUS_LABELS[job.status]}
+        </Badge>
+      </div>
+
+      {isActiveJob(job) && (
+        <div className="flex items-center space-x-2">
+          <Progress value={percent} className="h-2" aria-label="Video progress" />
+          <span className="w-10 text-right text-xs text-gray-500 tabular-nums">{percent}%</span>
+        </div>
+      )}
+
+      {job.status === 'succeeded' && job.url && !compact && (
+        <video src={job.url} controls className="w-full rounded-lg" />
+      )}
+
+      {job.error && <p className="text-xs text-red-600">{job.error}</p>}
+
+      {(isActiveJob(job) || canRetryJob(job)) && (
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">
+            {job.attempts > 1 && `Attempt ${job.attempts}`}
+          </span>
+          {isActiveJob(job) ? (
+            <Button onClick={() => onCancel(job.id)} variant="ghost" size="sm">
+              <Ban className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={() => onRetry(job.id)} variant="outline" size="sm">
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface VideoMessageContentProps {
+  message: Message
+  // Missing once the job has been cleared from the list
+  job?: VideoJob
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+}
+
+export function VideoMessageContent({ message, job, onCancel, onRetry }: VideoMessageContentProps) {
+  if (job) return <VideoJobCard job={job} onCancel={onCancel} onRetry={onRetry} />
+  if (message.mediaUrl) return <video src={message.mediaUrl} controls className="w-full max-w-md rounded-lg" />
+  return <p className="text-sm text-gray-500">This video is no longer available.</p>
+}
@@ -0,0 +1,69 @@
+import { Film, Trash2 } from 'lucide-react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet'
+import { ScrollArea } from './ui/scroll-area'
+import { Button } from './ui/button'
+import { VideoJobCard } from './VideoJobCard'
+import { isActiveJob, type VideoJob } from '../lib/video/jobs'
+
+interface VideoJobsSheetProps {
+  jobs: VideoJob[]
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onRemove: (id: string) => void
+  onClearFinished: () => void
+}
+
+export function VideoJobsSheet({ jobs, onCancel, onRetry, onRemove, onClearFinished }: VideoJobsSheetProps) {
+  const active = jobs.filter(isActiveJob).length
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Video jobs">
+          <Film className="h-4 w-4" />
+          {active > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-blue-600 px-1 text-[10px] text-white">
+              {active}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Videos</SheetTitle>
+          <SheetDescription>
+            {active > 0 ? `${active} rendering. You can keep chatting meanwhile.` : 'Videos you ask for appear here.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="-mx-2 flex-1 px-2">
+          <div className="space-y-2">
+            {jobs.map(job => (
+              <div key={job.id}>
+                <VideoJobCard job={job} onCancel={onCancel} onRetry={onRetry} compact />
+                {!isActiveJob(job) && (
+                  <div className="flex items-center justify-between px-1">
+                    {job.status === 'succeeded' && job.url ? (
+                      <a href={job.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 underline">
+                        Open video
+                      </a>
+                    ) : <span />}
+                    <Button onClick={() => onRemove(job.id)} variant="ghost" size="icon" className="h-7 w-7" aria-label="Remove from list">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {jobs.some(job => !isActiveJob(job)) && (
+          <Button onClick={onClearFinished} variant="outline" size="sm">
+            Clear finished
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
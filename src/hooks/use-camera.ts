@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react'
+import { cameraSupported, defaultCameraSource, stopStream, type CameraDevice, type CameraSource } from '../lib/camera/camera-source'
+
+export type CameraStatus = 'idle' | 'starting' | 'live' | 'error'
+
+interface UseCameraOptions {
+  // The stream is only open while this is true, so the camera light goes off
+  // as soon as the dialog closes or a snapshot is being reviewed
+  active: boolean
+  source?: CameraSource
+}
+
+export function useCamera({ active, source = defaultCameraSource }: UseCameraOptions) {
+  const [stream, setStream] = useState<MediaStream | null>(null)
+  const [status, setStatus] = useState<CameraStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [devices, setDevices] = useState<CameraDevice[]>([])
+  // The camera the user picked, which the stream is opened with, and the one
+  // the browser chose when they haven't picked; only the first reopens it
+  const [requestedId, setRequestedId] = useState<string | undefined>()
+  const [openedId, setOpenedId] = useState<string | undefined>()
+
+  const supported = source !== defaultCameraSource || cameraSupported
+
+  useEffect(() => {
+    if (!active || !supported) return
+    let cancelled = false
+    let opened: MediaStream | null = null
+    setStatus('starting')
+    setError(null)
+
+    source.open(requestedId)
+      .then(next => {
+        if (cancelled) {
+          stopStream(next)
+          return
+        }
+        opened = next
+        setStream(next)
+        setStatus('live')
+        // Remember which camera the browser picked so the picker shows it
+        setOpenedId(next.getVideoTracks()[0]?.getSettings().deviceId)
+
+        // Without the list the picker stays empty, but the camera still works
+        source.listDevices()
+          .then(available => !cancelled && setDevices(available))
+          .catch(err => console.error('Could not list cameras:', err))
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Could not open camera:', err)
+        setError(err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Albert needs camera access to take a photo. Check your browser permissions.'
+          : "Couldn't start the camera. Is another app using it?")
+        setStatus('error')
+      })
+
+    return () => {
+      cancelled = true
+      stopStream(opened)
+      setStream(null)
+      setStatus('idle')
+    }
+  }, [active, supported, source, requestedId])
+
+  const deviceId = requestedId ?? openedId
+  // Picking the camera that is already showing leaves the stream alone
+  const setDeviceId = (next: string) => {
+    if (next !== deviceId) setRequestedId(next)
+  }
+
+  return { supported, stream, status, error, devices, deviceId, setDeviceId }
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import { activeSummary, DEFAULT_CONTEXT_BUDGET, planContext, summarise } from '../lib/chat/context-window'
+import type { ContextSummary, Conversation, Message } from '../lib/chat/types'
+
+interface UseContextWindowOptions {
+  conversation: Conversation | null
+  setSummary: (summary: ContextSummary) => void
+  provider?: ChatProvider
+}
+
+// Builds the context for each request within the conversation's token budget,
+// folding whatever overflows into the rolling summary first
+export function useContextWindow({ conversation, setSummary, provider = defaultProvider }: UseContextWindowOptions) {
+  const [summarising, setSummarising] = useState(false)
+  const budget = conversation?.contextBudget ?? DEFAULT_CONTEXT_BUDGET
+  const messages = conversation?.messages
+  const summary = conversation?.summary
+
+  // Read through a ref so a summary saved moments ago is used even before
+  // the next render
+  const summaryRef = useRef(summary)
+  useEffect(() => {
+    summaryRef.current = summary
+  }, [summary])
+
+  const usage = useMemo(() => planContext(messages ?? [], budget, summary).tokens, [messages, budget, summary])
+
+  const prepareTurns = useCallback(async (history: Message[], signal: AbortSignal) => {
+    const plan = planContext(history, budget, summaryRef.current)
+    if (plan.overflow.length === 0) return plan.turns
+
+    setSummarising(true)
+    try {
+      const next = await summarise(provider, plan.overflow, activeSummary(history, summaryRef.current), signal)
+      summaryRef.current = next
+      setSummary(next)
+      return planContext(history, budget, next).turns
+    } catch (error) {
+      if (signal.aborted) throw error
+      // Still answer; the oldest messages just drop out of the context
+      console.error('Failed to summarise older messages:', error)
+      return plan.turns
+    } finally {
+      setSummarising(false)
+    }
+  }, [budget, provider, setSummary])
+
+  return {
+    budget,
+    usage,
+    summary: messages ? activeSummary(messages, summary) : undefined,
+    summarising,
+    prepareTurns
+  }
+}
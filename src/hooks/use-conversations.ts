@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { createId } from '../lib/utils'
+import {
+  editMessage as editInConversation,
+  linkThread,
+  regenerateReply,
+  selectBranch as selectInConversation,
+  switchBranch as switchInConversation
+} from '../lib/chat/branching'
+import {
+  createConversation,
+  createConversationBackend,
+  DEFAULT_CONVERSATION_TITLE,
+  deriveTitle,
+  hasStreamingReply,
+  settleInterruptedReplies,
+  sortConversations,
+  type ConversationBackend
+} from '../lib/chat/conversation-store'
+import type { Persona } from '../lib/personas/personas'
+import type { ContextSummary, Conversation, Message } from '../lib/chat/types'
+
+const defaultBackend = createConversationBackend()
+// While a reply streams in, writes are batched rather than made per chunk
+const STREAMING_SAVE_DELAY_MS = 1000
+
+export function useConversations(backend: ConversationBackend = defaultBackend) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const conversationsRef = useRef(conversations)
+  const saveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+
+  const commit = useCallback((next: Conversation[]) => {
+    conversationsRef.current = sortConversations(next)
+    setConversations(conversationsRef.current)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    backend.list()
+      .then(stored => {
+        if (cancelled) return
+        const initial = stored.length > 0 ? stored.map(settleInterruptedReplies) : [createConversation()]
+        commit(initial)
+        setActiveId(conversationsRef.current[0].id)
+      })
+      .catch(error => {
+        console.error('Failed to load conversations:', error)
+        if (cancelled) return
+        toast.error("Couldn't load your saved conversations. Starting a new one.")
+        commit([createConversation()])
+        setActiveId(conversationsRef.current[0].id)
+      })
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [backend, commit])
+
+  const save = useCallback((conversation: Conversation) => {
+    const timer = saveTimersRef.current.get(conversation.id)
+    if (timer !== undefined) {
+      clearTimeout(timer)
+      saveTimersRef.current.delete(conversation.id)
+    }
+    backend.put(conversation).catch(error => console.error('Failed to save conversation:', error))
+  }, [backend])
+
+  // Saves the latest copy once the delay passes, however many updates came in between
+  const saveLater = useCallback((id: string) => {
+    if (saveTimersRef.current.has(id)) return
+    saveTimersRef.current.set(id, setTimeout(() => {
+      saveTimersRef.current.delete(id)
+      const latest = conversationsRef.current.find(conversation => conversation.id === id)
+      if (latest) save(latest)
+    }, STREAMING_SAVE_DELAY_MS))
+  }, [save])
+
+  // Writes out anything still waiting when the hook goes away
+  useEffect(() => {
+    const timers = saveTimersRef.current
+    return () => {
+      for (const [id, timer] of timers) {
+        clearTimeout(timer)
+        const latest = conversationsRef.current.find(conversation => conversation.id === id)
+        if (latest) backend.put(latest).catch(error => console.error('Failed to save conversation:', error))
+      }
+      timers.clear()
+    }
+  }, [backend])
+
+  const create = useCallback(() => {
+    const conversation = createConversation()
+    commit([conversation, ...conversationsRef.current])
+    setActiveId(conversation.id)
+    save(conversation)
+    return conversation
+  }, [commit, save])
+
+  const update = useCallback((id: string, change: (conversation: Conversation) => Conversation) => {
+    const current = conversationsRef.current.find(conversation => conversation.id === id)
+    if (!current) return
+
+    const updated = { ...change(current), updatedAt: new Date() }
+    commit(conversationsRef.current.map(conversation => conversation.id === id ? updated : conversation))
+    if (hasStreamingReply(updated)) saveLater(id)
+    else save(updated)
+  }, [commit, save, saveLater])
+
+  const rename = useCallback((id: string, title: string) => {
+    update(id, conversation => ({ ...conversation, title: title.trim() || DEFAULT_CONVERSATION_TITLE }))
+  }, [update])
+
+  const remove = useCallback((id: string) => {
+    const remaining = conversationsRef.current.filter(conversation => conversation.id !== id)
+    clearTimeout(saveTimersRef.current.get(id))
+    saveTimersRef.current.delete(id)
+    backend.remove(id).catch(error => console.error('Failed to delete conversation:', error))
+
+    if (remaining.length === 0) {
+      const fresh = createConversation()
+      commit([fresh])
+      setActiveId(fresh.id)
+      save(fresh)
+      return
+    }
+
+    commit(remaining)
+    setActiveId(current => current === id ? conversationsRef.current[0].id : current)
+  }, [backend, commit, save])
+
+  const setMessages = useCallback((messages: Message[] | ((previous: Message[]) => Message[])) => {
+    if (!activeId) return
+
+    update(activeId, conversation => {
+      const next = typeof messages === 'function' ? messages(conversation.messages) : messages
+      const title = conversation.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(next) : conversation.title
+      return { ...conversation, title, messages: linkThread(next) }
+    })
+  }, [activeId, update])
+
+  // Forks the active thread at `messageId` and returns the new thread, ending
+  // in the edited message, so the caller can ask for a fresh reply
+  const editMessage = useCallback((messageId: string, content: string): Message[] | null => {
+    const current = conversationsRef.current.find(conversation => conversation.id === activeId)
+    const edited = current && editInConversation(current, messageId, content)
+    if (!activeId || !edited) return null
+
+    update(activeId, () => edited.conversation)
+    return edited.conversation.messages
+  }, [activeId, update])
+
+  // Moves an assistant reply aside as an alternate candidate and returns the
+  // history a new candidate should answer
+  const regenerate = useCallback((messageId: string): Message[] | null => {
+    const current = conversationsRef.current.find(conversation => conversation.id === activeId)
+    const parked = current && regenerateReply(current, messageId)
+    if (!activeId || !parked) return null
+
+    update(activeId, () => parked)
+    return parked.messages
+  }, [activeId, update])
+
+  const switchBranch = useCallback((messageId: string, offset: number) => {
+    if (!activeId) return
+    update(activeId, conversation => switchInConversation(conversation, messageId, offset))
+  }, [activeId, update])
+
+  const selectBranch = useCallback((messageId: string) => {
+    if (!activeId) return
+    update(activeId, conversation => selectInConversation(conversation, messageId))
+  }, [activeId, update])
+
+  // Switching mid-conversation leaves a marker in the thread so it's clear
+  // which persona wrote which replies
+  const setPersona = useCallback((persona: Persona) => {
+    if (!activeId) return
+
+    update(activeId, conversation => {
+      if (conversation.messages.length === 0) return { ...conversation, personaId: persona.id }
+
+      const marker: Message = {
+        id: createId(),
+        content: `Switched to ${persona.name}`,
+        role: 'assistant',
+        timestamp: new Date(),
+        type: 'persona',
+        personaId: persona.id
+      }
+      return { ...conversation, personaId: persona.id, messages: linkThread([...conversation.messages, marker]) }
+    })
+  }, [activeId, update])
+
+  // Patches a message wherever it lives, including other conversations and
+  // inactive branches; used by background work such as video jobs
+  const updateMessage = useCallback((conversationId: string, messageId: string, patch: Partial<Message>) => {
+    const apply = (messages: Message[]) => messages.map(message => message.id === messageId ? { ...message, ...patch } : message)
+    update(conversationId, conversation => ({
+      ...conversation,
+      messages: apply(conversation.messages),
+      ...(conversation.branches && { branches: apply(conversation.branches) })
+    }))
+  }, [update])
+
+  const togglePin = useCallback((messageId: string) => {
+    setMessages(previous => previous.map(message =>
+      message.id === messageId ? { ...message, pinned: !message.pinned } : message
+    ))
+  }, [setMessages])
+
+  const setSummary = useCallback((summary: ContextSummary | undefined) => {
+    if (!activeId) return
+    update(activeId, conversation => ({ ...conversation, summary }))
+  }, [activeId, update])
+
+  const setContextBudget = useCallback((contextBudget: number) => {
+    if (!activeId) return
+    update(activeId, conversation => ({ ...conversation, contextBudget }))
+  }, [activeId, update])
+
+  // Starts the active conversation afresh, dropping branches and any summary
+  const clearMessages = useCallback(() => {
+    if (!activeId) return
+    update(activeId, conversation => ({ ...conversation, messages: [], branches: [], summary: undefined }))
+  }, [activeId, update])
+
+  // Adds imported conversations, overwriting any with the same id
+  const importConversations = useCallback((imported: Conversation[]) => {
+    if (imported.length === 0) return
+
+    const ids = new Set(imported.map(conversation => conversation.id))
+    commit([...imported, ...conversationsRef.current.filter(conversation => !ids.has(conversation.id))])
+    imported.forEach(save)
+    setActiveId(imported[0].id)
+  }, [commit, save])
+
+  const activeConversation = useMemo(
+    () => conversations.find(conversation => conversation.id === activeId) ?? null,
+    [conversations, activeId]
+  )
+
+  return {
+    conversations,
+    activeConversation,
+    messages: activeConversation?.messages ?? [],
+    loading,
+    create,
+    rename,
+    remove,
+    select: setActiveId,
+    setMessages,
+    updateMessage,
+    editMessage,
+    regenerate,
+    switchBranch,
+    selectBranch,
+    setPersona,
+    togglePin,
+    setSummary,
+    setContextBudget,
+    clearMessages,
+    importConversations
+  }
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { userScopedStore } from '../lib/storage/user-scope'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import { isAbortError } from '../lib/chat/streaming'
+import { addCards, createDeck, reviewCard, type CardInput, type Deck } from '../lib/study/decks'
+import { FlashcardError, generateFlashcards } from '../lib/study/generate'
+import type { ReviewGrade } from '../lib/study/sm2'
+
+const getDeckStore = () => userScopedStore<Deck>('decks')
+
+const byTitle = (a: Deck, b: Deck) => a.title.localeCompare(b.title)
+
+export function useDecks(provider: ChatProvider = defaultProvider) {
+  const [decks, setDecks] = useState<Deck[]>([])
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+  const decksRef = useRef(decks)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const commit = useCallback((deck: Deck) => {
+    decksRef.current = [...decksRef.current.filter(existing => existing.id !== deck.id), deck].sort(byTitle)
+    setDecks(decksRef.current)
+    getDeckStore().put(deck).catch(error => console.error('Failed to save deck:', error))
+  }, [])
+
+  const change = useCallback((deckId: string, apply: (deck: Deck) => Deck) => {
+    const current = decksRef.current.find(deck => deck.id === deckId)
+    if (current) commit(apply(current))
+  }, [commit])
+
+  useEffect(() => {
+    let cancelled = false
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    getDeckStore().list()
+      .then(stored => {
+        if (cancelled) return
+        decksRef.current = stored.sort(byTitle)
+        setDecks(decksRef.current)
+      })
+      .catch(error => console.error('Failed to load decks:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [])
+
+  const create = useCallback((title: string, cards: CardInput[], source?: string): Deck => {
+    const deck = createDeck(title, cards, source)
+    commit(deck)
+    return deck
+  }, [commit])
+
+  // Throws FlashcardError with a readable message when generation fails
+  const generate = useCallback(async (text: string, count: number, source?: string): Promise<Deck> => {
+    setGenerating(true)
+    try {
+      const generated = await generateFlashcards(provider, text, count, controllerRef.current?.signal)
+      return create(generated.title, generated.cards, source)
+    } catch (error) {
+      if (error instanceof FlashcardError || isAbortError(error)) throw error
+      console.error('Flashcard generation failed:', error)
+      throw new FlashcardError("Albert couldn't make flashcards from this. Please try again.")
+    } finally {
+      setGenerating(false)
+    }
+  }, [provider, create])
+
+  const addToDeck = useCallback((deckId: string, cards: CardInput[]) => {
+    change(deckId, deck => addCards(deck, cards))
+  }, [change])
+
+  const review = useCallback((deckId: string, cardId: string, grade: ReviewGrade) => {
+    change(deckId, deck => reviewCard(deck, cardId, grade))
+  }, [change])
+
+  const rename = useCallback((deckId: string, title: string) => {
+    change(deckId, deck => ({ ...deck, title: title.trim() || deck.title, updatedAt: new Date() }))
+  }, [change])
+
+  const remove = useCallback((deckId: string) => {
+    decksRef.current = decksRef.current.filter(deck => deck.id !== deckId)
+    setDecks(decksRef.current)
+    getDeckStore().remove(deckId).catch(error => console.error('Failed to delete deck:', error))
+  }, [])
+
+  return {
+    decks,
+    loading,
+    generating,
+    create,
+    generate,
+    addToDeck,
+    review,
+    rename,
+    remove
+  }
+}
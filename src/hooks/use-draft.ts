@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { userScopedStore } from '../lib/storage/user-scope'
+
+interface Draft {
+  // The conversation the draft belongs to
+  id: string
+  text: string
+  updatedAt: Date
+}
+
+const SAVE_DELAY_MS = 400
+
+const getDraftStore = () => userScopedStore<Draft>('drafts')
+
+// Unsent composer text for each conversation, restored when switching back
+export function useDraft(conversationId: string | null) {
+  const [text, setText] = useState('')
+  // Latest text, for functional updates made from stale closures
+  const textRef = useRef('')
+  const pending = useRef<{ id: string; text: string } | null>(null)
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined)
+
+  const flush = useCallback(() => {
+    clearTimeout(timer.current)
+    const draft = pending.current
+    pending.current = null
+    if (!draft) return
+
+    const store = getDraftStore()
+    const saved = draft.text.trim()
+      ? store.put({ id: draft.id, text: draft.text, updatedAt: new Date() })
+      : store.remove(draft.id)
+    saved.catch(error => console.error('Failed to save draft:', error))
+  }, [])
+
+  useEffect(() => {
+    textRef.current = ''
+    setText('')
+    if (!conversationId) return
+
+    let cancelled = false
+    getDraftStore().get(conversationId)
+      .then(draft => {
+        if (cancelled || !draft || textRef.current) return
+        textRef.current = draft.text
+        setText(draft.text)
+      })
+      .catch(error => console.error('Failed to load draft:', error))
+
+    return () => {
+      cancelled = true
+      // Save straight away when leaving a conversation mid-typing
+      flush()
+    }
+  }, [conversationId, flush])
+
+  const setDraft = useCallback((next: string | ((previous: string) => string)) => {
+    const value = typeof next === 'function' ? next(textRef.current) : next
+    textRef.current = value
+    setText(value)
+    if (!conversationId) return
+
+    pending.current = { id: conversationId, text: value }
+    clearTimeout(timer.current)
+    timer.current = setTimeout(flush, SAVE_DELAY_MS)
+  }, [conversationId, flush])
+
+  return [text, setDraft] as const
+}
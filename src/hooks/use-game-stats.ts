@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react'
+import { createId } from '../lib/utils'
+import { userScopedStore } from '../lib/storage/user-scope'
+import { recordsForVariant, type GameRecord } from '../lib/games/stats'
+
+const getStatsStore = () => userScopedStore<GameRecord>('game-stats')
+
+export function useGameStats(gameId?: string) {
+  const [records, setRecords] = useState<GameRecord[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    const stored = await getStatsStore().list()
+    return gameId ? stored.filter(record => record.gameId === gameId) : stored
+  }, [gameId])
+
+  useEffect(() => {
+    let cancelled = false
+
+    load()
+      .then(loaded => !cancelled && setRecords(loaded))
+      .catch(error => console.error('Failed to load game stats:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [load])
+
+  const recordGame = useCallback((game: Omit<GameRecord, 'id' | 'endedAt'>) => {
+    const record: GameRecord = { ...game, id: createId(), endedAt: new Date() }
+    setRecords(previous => [...previous, record])
+    getStatsStore().put(record).catch(error => console.error('Failed to save game result:', error))
+  }, [])
+
+  // Clears one board variant when given, otherwise everything loaded. If some
+  // removals fail the records are reloaded so the view matches what's left
+  const clearStats = useCallback(async (variant?: string) => {
+    const store = getStatsStore()
+    const stale = variant === undefined ? records : recordsForVariant(records, variant)
+    const staleIds = new Set(stale.map(record => record.id))
+    try {
+      await Promise.all(stale.map(record => store.remove(record.id)))
+      setRecords(previous => previous.filter(record => !staleIds.has(record.id)))
+    } catch (error) {
+      load()
+        .then(setRecords)
+        .catch(reloadError => console.error('Failed to reload game stats:', reloadError))
+      throw error
+    }
+  }, [load, records])
+
+  return { records, loading, recordGame, clearStats }
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createId } from '../lib/utils'
+import { userScopedStore } from '../lib/storage/user-scope'
+import { BUILTIN_PERSONAS, personaSchema, type Persona } from '../lib/personas/personas'
+
+const getPersonaStore = () => userScopedStore<Persona>('personas')
+
+export type PersonaInput = Omit<Persona, 'id' | 'builtIn'> & { id?: string }
+
+export type SavePersonaResult =
+  | { ok: true; persona: Persona }
+  | { ok: false; errors: Partial<Record<keyof Persona, string>> }
+
+export function usePersonas() {
+  const [custom, setCustom] = useState<Persona[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getPersonaStore().list()
+      .then(stored => {
+        // Drop anything that no longer matches the schema rather than crash on it
+        const valid = stored.filter(persona => personaSchema.safeParse(persona).success)
+        if (!cancelled) setCustom(valid)
+      })
+      .catch(error => console.error('Failed to load personas:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const savePersona = useCallback((input: PersonaInput): SavePersonaResult => {
+    const parsed = personaSchema.safeParse({ ...input, id: input.id ?? createId(), builtIn: false })
+    if (!parsed.success) {
+      const errors: Partial<Record<keyof Persona, string>> = {}
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as keyof Persona
+        errors[field] ??= issue.message
+      }
+      return { ok: false, errors }
+    }
+
+    const persona = parsed.data
+    setCustom(previous => [...previous.filter(existing => existing.id !== persona.id), persona])
+    getPersonaStore().put(persona).catch(error => console.error('Failed to save persona:', error))
+    return { ok: true, persona }
+  }, [])
+
+  const removePersona = useCallback((id: string) => {
+    setCustom(previous => previous.filter(persona => persona.id !== id))
+    getPersonaStore().remove(id).catch(error => console.error('Failed to delete persona:', error))
+  }, [])
+
+  const personas = useMemo(() => [...BUILTIN_PERSONAS, ...custom], [custom])
+
+  return { personas, loading, savePersona, removePersona }
+}
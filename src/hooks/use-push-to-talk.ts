@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isAbortError } from '../lib/chat/streaming'
+import { defaultTranscription, type TranscriptionBackend } from '../lib/voice/transcription'
+
+export type PushToTalkStatus = 'idle' | 'recording' | 'transcribing'
+
+// Presses shorter than this are treated as accidental taps
+const MIN_RECORDING_MS = 300
+
+interface UsePushToTalkOptions {
+  onTranscript: (text: string) => void
+  backend?: TranscriptionBackend
+}
+
+export function usePushToTalk({ onTranscript, backend = defaultTranscription }: UsePushToTalkOptions) {
+  const [status, setStatus] = useState<PushToTalkStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+  const startedAtRef = useRef(0)
+  // Set while waiting for the microphone (the permission prompt on first use),
+  // and whether the press already ended in that time
+  const openingRef = useRef(false)
+  const releasedRef = useRef(false)
+
+  const supported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined'
+
+  useEffect(() => () => {
+    releasedRef.current = true
+    controllerRef.current?.abort()
+    const recorder = recorderRef.current
+    if (recorder) {
+      // Stopping the tracks ends the recording, which must not be transcribed
+      // once nobody is listening
+      recorder.onstop = null
+      recorder.stream.getTracks().forEach(track => track.stop())
+      recorderRef.current = null
+    }
+  }, [])
+
+  const transcribe = useCallback(async (audio: Blob) => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setStatus('transcribing')
+
+    try {
+      const text = await backend.transcribe(audio, controller.signal)
+      if (text.trim()) onTranscript(text.trim())
+      else setError("I didn't catch that. Hold the button and try again.")
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Transcription failed:', err)
+        setError("Couldn't turn that into text. Please try again.")
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+      setStatus('idle')
+    }
+  }, [backend, onTranscript])
+
+  const start = useCallback(async () => {
+    if (!supported || recorderRef.current || openingRef.current) return
+    setError(null)
+    openingRef.current = true
+    releasedRef.current = false
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      if (releasedRef.current) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+      const recorder = new MediaRecorder(stream)
+      const chunks: Blob[] = []
+
+      recorder.ondataavailable = (e) => chunks.push(e.data)
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop())
+        recorderRef.current = null
+        if (Date.now() - startedAtRef.current < MIN_RECORDING_MS) {
+          setStatus('idle')
+          return
+        }
+        void transcribe(new Blob(chunks, { type: recorder.mimeType }))
+      }
+
+      recorderRef.current = recorder
+      startedAtRef.current = Date.now()
+      recorder.start()
+      setStatus('recording')
+    } catch (err) {
+      console.error('Could not start recording:', err)
+      setError('Albert needs microphone access to listen. Check your browser permissions.')
+      setStatus('idle')
+    } finally {
+      openingRef.current = false
+    }
+  }, [supported, transcribe])
+
+  const stop = useCallback(() => {
+    releasedRef.current = true
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop()
+  }, [])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  return { supported, status, error, start, stop, cancel }
+}
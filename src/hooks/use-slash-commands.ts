@@ -0,0 +1,76 @@
+import { useCallback, useMemo, useState, type KeyboardEvent } from 'react'
+import {
+  CommandError,
+  parseCommand,
+  runCommand,
+  suggestCommands,
+  type CommandContext,
+  type CommandSuggestion
+} from '../lib/commands/registry'
+import '../lib/commands/builtin'
+
+interface UseSlashCommandsOptions {
+  input: string
+  setInput: (input: string) => void
+  context: CommandContext
+}
+
+// Autocomplete and execution for "/" commands typed into the composer. State
+// is keyed by the input it belongs to, so editing the text resets selection,
+// dismissal and errors without extra effects.
+export function useSlashCommands({ input, setInput, context }: UseSlashCommandsOptions) {
+  const [selection, setSelection] = useState({ input: '', index: 0 })
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null)
+  const [failure, setFailure] = useState<{ input: string; message: string } | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const suggestions = useMemo(() => suggestCommands(input, context), [input, context])
+  const open = suggestions.length > 0 && dismissedFor !== input
+  const selectedIndex = selection.input === input ? Math.min(selection.index, suggestions.length - 1) : 0
+  const error = failure?.input === input ? failure.message : null
+
+  const complete = useCallback((suggestion: CommandSuggestion) => {
+    setInput(suggestion.completion)
+  }, [setInput])
+
+  // Returns true when the key was used by the menu and shouldn't reach the composer
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!open) return false
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setSelection({ input, index: (selectedIndex + step + suggestions.length) % suggestions.length })
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+      complete(suggestions[selectedIndex])
+    } else if (e.key === 'Escape') {
+      setDismissedFor(input)
+    } else {
+      return false
+    }
+
+    e.preventDefault()
+    return true
+  }, [complete, input, open, selectedIndex, suggestions])
+
+  // Runs `text` if it's a command; returns false for ordinary prompts
+  const submit = useCallback(async (text: string) => {
+    if (!parseCommand(text)) return false
+
+    setRunning(true)
+    try {
+      await runCommand(text, context)
+      setInput('')
+    } catch (err) {
+      if (!(err instanceof CommandError)) console.error('Slash command failed:', err)
+      setFailure({
+        input,
+        message: err instanceof CommandError ? err.message : 'That command failed. Please try again.'
+      })
+    } finally {
+      setRunning(false)
+    }
+    return true
+  }, [context, input, setInput])
+
+  return { suggestions, open, selectedIndex, error, running, complete, handleKeyDown, submit }
+}
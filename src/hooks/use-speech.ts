@@ -0,0 +1,30 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import {
+  getSpeechState,
+  loadSpeechSettings,
+  pauseSpeaking,
+  resumeSpeaking,
+  setSpeechRate,
+  speakMessage,
+  speechSupported,
+  stopSpeaking,
+  subscribeSpeech
+} from '../lib/voice/speech'
+
+export function useSpeech() {
+  const state = useSyncExternalStore(subscribeSpeech, getSpeechState)
+
+  useEffect(() => {
+    loadSpeechSettings().catch(error => console.error('Failed to load voice settings:', error))
+  }, [])
+
+  return {
+    ...state,
+    supported: speechSupported,
+    speak: speakMessage,
+    pause: pauseSpeaking,
+    resume: resumeSpeaking,
+    stop: stopSpeaking,
+    setRate: setSpeechRate
+  }
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { userScopedStore } from '../lib/storage/user-scope'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import { isAbortError } from '../lib/chat/streaming'
+import {
+  createStoryboard,
+  generateSceneImage,
+  moveScene,
+  planStoryboard,
+  StoryboardError,
+  updateScene,
+  type Scene,
+  type Storyboard
+} from '../lib/stories/storyboard'
+
+const getStoryboardStore = () => userScopedStore<Storyboard>('storyboards')
+
+const newestFirst = (a: Storyboard, b: Storyboard) => b.createdAt.getTime() - a.createdAt.getTime()
+
+export function useStoryboards(provider: ChatProvider = defaultProvider) {
+  const [storyboards, setStoryboards] = useState<Storyboard[]>([])
+  const [loading, setLoading] = useState(true)
+  const [planning, setPlanning] = useState(false)
+  const boardsRef = useRef(storyboards)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const commit = useCallback((board: Storyboard) => {
+    boardsRef.current = [board, ...boardsRef.current.filter(existing => existing.id !== board.id)].sort(newestFirst)
+    setStoryboards(boardsRef.current)
+    getStoryboardStore().put(board).catch(error => console.error('Failed to save storyboard:', error))
+  }, [])
+
+  // Applies `change` to the latest copy of a board, so async steps never
+  // overwrite edits made while they were running
+  const change = useCallback((boardId: string, apply: (board: Storyboard) => Storyboard) => {
+    const current = boardsRef.current.find(board => board.id === boardId)
+    if (current) commit(apply(current))
+  }, [commit])
+
+  useEffect(() => {
+    let cancelled = false
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    getStoryboardStore().list()
+      .then(stored => {
+        if (cancelled) return
+        // Pictures that were drawing or still queued when the page closed
+        // need another go; marking them failed offers Redraw on each
+        boardsRef.current = stored
+          .map(board => ({
+            ...board,
+            scenes: board.scenes.map(scene => scene.imageStatus === 'generating' || scene.imageStatus === 'pending'
+              ? { ...scene, imageStatus: 'failed' as const }
+              : scene)
+          }))
+          .sort(newestFirst)
+        setStoryboards(boardsRef.current)
+      })
+      .catch(error => console.error('Failed to load storyboards:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [])
+
+  const illustrateScene = useCallback(async (boardId: string, sceneId: string) => {
+    const board = boardsRef.current.find(candidate => candidate.id === boardId)
+    const scene = board?.scenes.find(candidate => candidate.id === sceneId)
+    if (!board || !scene) return
+
+    change(boardId, current => updateScene(current, sceneId, { imageStatus: 'generating' }))
+    try {
+      const imageUrl = await generateSceneImage(provider, board, scene, controllerRef.current?.signal)
+      change(boardId, current => updateScene(current, sceneId, { imageUrl, imageStatus: 'ready' }))
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Scene illustration failed:', error)
+      change(boardId, current => updateScene(current, sceneId, { imageStatus: 'failed' }))
+    }
+  }, [provider, change])
+
+  // One picture at a time, in reading order, so the board fills in from the start
+  const illustrate = useCallback(async (boardId: string) => {
+    const board = boardsRef.current.find(candidate => candidate.id === boardId)
+    const waiting = board?.scenes.filter(scene => scene.imageStatus === 'pending' || scene.imageStatus === 'failed') ?? []
+    for (const scene of waiting) {
+      if (controllerRef.current?.signal.aborted) return
+      await illustrateScene(boardId, scene.id)
+    }
+  }, [illustrateScene])
+
+  // Throws StoryboardError with a readable message when planning fails
+  const create = useCallback(async (idea: string, sceneCount: number, style: string): Promise<Storyboard> => {
+    setPlanning(true)
+    try {
+      const plan = await planStoryboard(provider, idea, sceneCount, controllerRef.current?.signal)
+      const board = createStoryboard(idea, style, plan)
+      commit(board)
+      void illustrate(board.id)
+      return board
+    } catch (error) {
+      if (error instanceof StoryboardError || isAbortError(error)) throw error
+      console.error('Storyboard planning failed:', error)
+      throw new StoryboardError("Albert couldn't plan this story. Please try again.")
+    } finally {
+      setPlanning(false)
+    }
+  }, [provider, commit, illustrate])
+
+  const editScene = useCallback((boardId: string, sceneId: string, patch: Partial<Pick<Scene, 'text' | 'illustration'>>) => {
+    change(boardId, board => updateScene(board, sceneId, patch))
+  }, [change])
+
+  const reorder = useCallback((boardId: string, sceneId: string, targetId: string) => {
+    change(boardId, board => moveScene(board, sceneId, targetId))
+  }, [change])
+
+  const rename = useCallback((boardId: string, title: string) => {
+    change(boardId, board => ({ ...board, title: title.trim() || board.title, updatedAt: new Date() }))
+  }, [change])
+
+  const remove = useCallback((boardId: string) => {
+    boardsRef.current = boardsRef.current.filter(board => board.id !== boardId)
+    setStoryboards(boardsRef.current)
+    getStoryboardStore().remove(boardId).catch(error => console.error('Failed to delete storyboard:', error))
+  }, [])
+
+  return {
+    storyboards,
+    loading,
+    planning,
+    create,
+    illustrate,
+    illustrateScene,
+    editScene,
+    reorder,
+    rename,
+    remove
+  }
+}
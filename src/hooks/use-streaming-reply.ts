@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createId } from '../lib/utils'
+import {
+  CONTINUE_PROMPT,
+  defaultStreamSource,
+  isAbortError,
+  toChatTurns,
+  type ChatTurn,
+  type StreamSource
+} from '../lib/chat/streaming'
+import { withPersona, type Persona } from '../lib/personas/personas'
+import type { Message } from '../lib/chat/types'
+
+type MessagesUpdater = (update: (previous: Message[]) => Message[]) => void
+
+interface UseStreamingReplyOptions {
+  setMessages: MessagesUpdater
+  source?: StreamSource
+  // Supplies the system prompt and temperature for every request
+  persona?: Persona
+  // Turns the history into the context actually sent (see useContextWindow);
+  // defaults to sending every message
+  prepareTurns?: (history: Message[], signal: AbortSignal) => Promise<ChatTurn[]>
+}
+
+const sendEverything = async (history: Message[]) => toChatTurns(history)
+
+export function useStreamingReply({
+  setMessages,
+  source = defaultStreamSource,
+  persona,
+  prepareTurns = sendEverything
+}: UseStreamingReplyOptions) {
+  const controllerRef = useRef<AbortController | null>(null)
+  const [streamingId, setStreamingId] = useState<string | null>(null)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const run = useCallback(async (
+    messageId: string,
+    history: Message[],
+    extraTurns: ChatTurn[] = []
+  ) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setStreamingId(messageId)
+
+    const patch = (change: (message: Message) => Message) => {
+      setMessages(previous => previous.map(message => message.id === messageId ? change(message) : message))
+    }
+
+    patch(message => ({ ...message, status: 'streaming' }))
+
+    try {
+      const turns = [...await prepareTurns(history, controller.signal), ...extraTurns]
+      const result = await source({
+        messages: persona ? withPersona(turns, persona) : turns,
+        signal: controller.signal,
+        temperature: persona?.temperature,
+        onChunk: chunk => patch(message => ({ ...message, content: message.content + chunk }))
+      })
+      patch(message => ({ ...message, status: result.finishReason === 'length' ? 'truncated' : 'complete' }))
+    } catch (error) {
+      if (isAbortError(error)) {
+        patch(message => ({ ...message, status: 'stopped' }))
+      } else {
+        console.error('Streaming reply failed:', error)
+        patch(message => ({
+          ...message,
+          status: 'error',
+          content: message.content || "Sorry, I couldn't finish that answer. Please try again."
+        }))
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setStreamingId(null)
+      }
+    }
+  }, [persona, prepareTurns, setMessages, source])
+
+  // Appends an empty assistant message after `history` and streams into it
+  const reply = useCallback((history: Message[]) => {
+    const assistantMessage: Message = {
+      id: createId(),
+      content: '',
+      role: 'assistant',
+      timestamp: new Date(),
+      type: 'text',
+      status: 'streaming'
+    }
+    setMessages(previous => [...previous, assistantMessage])
+    void run(assistantMessage.id, history)
+    return assistantMessage.id
+  }, [run, setMessages])
+
+  const resume = useCallback((history: Message[], messageId: string) => {
+    const index = history.findIndex(message => message.id === messageId)
+    if (index === -1) return
+
+    void run(messageId, history.slice(0, index + 1), [{ role: 'user', content: CONTINUE_PROMPT }])
+  }, [run])
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  return {
+    streamingId,
+    isStreaming: streamingId !== null,
+    reply,
+    resume,
+    stop
+  }
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { userScopedStore } from '../lib/storage/user-scope'
+import { provider as defaultProvider } from '../lib/providers'
+import type { ChatProvider } from '../lib/providers/types'
+import {
+  applyJobUpdate,
+  canRetryJob,
+  createVideoJob,
+  failJob,
+  isActiveJob,
+  MAX_POLL_FAILURES,
+  resetJob,
+  VIDEO_POLL_INTERVAL_MS,
+  type VideoJob
+} from '../lib/video/jobs'
+
+const getVideoJobStore = () => userScopedStore<VideoJob>('video-jobs')
+
+const newestFirst = (a: VideoJob, b: VideoJob) => b.createdAt.getTime() - a.createdAt.getTime()
+
+const findJob = (jobs: VideoJob[], id: string) => jobs.find(job => job.id === id)
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : "Couldn't start the video."
+
+interface UseVideoJobsOptions {
+  provider?: ChatProvider
+  // Called whenever a job changes, so its chat message can follow along
+  onJobChange?: (job: VideoJob) => void
+}
+
+export function useVideoJobs({ provider = defaultProvider, onJobChange }: UseVideoJobsOptions = {}) {
+  const [jobs, setJobs] = useState<VideoJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const jobsRef = useRef(jobs)
+  const pollFailuresRef = useRef(new Map<string, number>())
+  const pollingRef = useRef(false)
+  const onJobChangeRef = useRef(onJobChange)
+
+  useEffect(() => {
+    onJobChangeRef.current = onJobChange
+  }, [onJobChange])
+
+  const commit = useCallback((job: VideoJob) => {
+    jobsRef.current = [job, ...jobsRef.current.filter(existing => existing.id !== job.id)].sort(newestFirst)
+    setJobs(jobsRef.current)
+    getVideoJobStore().put(job).catch(error => console.error('Failed to save video job:', error))
+    onJobChangeRef.current?.(job)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    getVideoJobStore().list()
+      .then(stored => {
+        if (cancelled) return
+        jobsRef.current = stored.sort(newestFirst)
+        setJobs(jobsRef.current)
+        // A job the provider never accepted can't be polled; let the user retry it
+        for (const job of stored) {
+          if (isActiveJob(job) && !job.providerJobId) commit(failJob(job, 'Interrupted before it started.'))
+        }
+      })
+      .catch(error => console.error('Failed to load video jobs:', error))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [commit])
+
+  const launch = useCallback(async (job: VideoJob) => {
+    try {
+      const update = await provider.startVideo({ prompt: job.prompt })
+      const current = findJob(jobsRef.current, job.id)
+      // Cancelled, removed or retried while the provider was accepting it
+      if (!current || !isActiveJob(current) || current.attempts !== job.attempts) {
+        await provider.cancelVideo(update.jobId)
+        return
+      }
+      commit(applyJobUpdate(current, update))
+    } catch (error) {
+      console.error('Could not start video:', error)
+      const current = findJob(jobsRef.current, job.id)
+      if (current && isActiveJob(current) && current.attempts === job.attempts) commit(failJob(current, errorMessage(error)))
+    }
+  }, [provider, commit])
+
+  const poll = useCallback(async () => {
+    if (pollingRef.current) return
+    pollingRef.current = true
+
+    try {
+      for (const job of jobsRef.current.filter(isActiveJob)) {
+        if (!job.providerJobId) continue
+        try {
+          const update = await provider.getVideoJob(job.providerJobId)
+          pollFailuresRef.current.delete(job.id)
+          const current = findJob(jobsRef.current, job.id)
+          // Skip answers about a provider job this one no longer follows (e.g. after a retry)
+          if (!current || !isActiveJob(current) || current.providerJobId !== job.providerJobId) continue
+          if (update.status === current.status && update.progress === current.progress) continue
+          commit(applyJobUpdate(current, update))
+        } catch (error) {
+          console.error('Could not check video job:', error)
+          const failures = (pollFailuresRef.current.get(job.id) ?? 0) + 1
+          pollFailuresRef.current.set(job.id, failures)
+          const current = findJob(jobsRef.current, job.id)
+          if (failures >= MAX_POLL_FAILURES && current && isActiveJob(current) && current.providerJobId === job.providerJobId) {
+            pollFailuresRef.current.delete(job.id)
+            commit(failJob(current, 'Lost contact with the video service.'))
+          }
+        }
+      }
+    } finally {
+      pollingRef.current = false
+    }
+  }, [provider, commit])
+
+  const hasActiveJobs = jobs.some(isActiveJob)
+
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const timer = setInterval(() => void poll(), VIDEO_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs, poll])
+
+  const submit = useCallback((prompt: string, messageId: string, conversationId: string | null): VideoJob => {
+    const job = createVideoJob(prompt, messageId, conversationId)
+    commit(job)
+    void launch(job)
+    return job
+  }, [commit, launch])
+
+  const retry = useCallback((id: string) => {
+    const job = findJob(jobsRef.current, id)
+    if (!job || !canRetryJob(job)) return
+    const next = resetJob(job)
+    commit(next)
+    void launch(next)
+  }, [commit, launch])
+
+  const cancel = useCallback((id: string) => {
+    const job = findJob(jobsRef.current, id)
+    if (!job || !isActiveJob(job)) return
+    commit({ ...job, status: 'cancelled', updatedAt: new Date() })
+    if (job.providerJobId) {
+      provider.cancelVideo(job.providerJobId).catch(error => console.error('Failed to cancel video job:', error))
+    }
+  }, [provider, commit])
+
+  const remove = useCallback((id: string) => {
+    cancel(id)
+    jobsRef.current = jobsRef.current.filter(job => job.id !== id)
+    setJobs(jobsRef.current)
+    getVideoJobStore().remove(id).catch(error => console.error('Failed to delete video job:', error))
+  }, [cancel])
+
+  const clearFinished = useCallback(() => {
+    const finished = jobsRef.current.filter(job => !isActiveJob(job))
+    jobsRef.current = jobsRef.current.filter(isActiveJob)
+    setJobs(jobsRef.current)
+    for (const job of finished) {
+      getVideoJobStore().remove(job.id).catch(error => console.error('Failed to delete video job:', error))
+    }
+  }, [])
+
+  const jobsById = useMemo(() => new Map(jobs.map(job => [job.id, job])), [jobs])
+
+  return {
+    jobs,
+    jobsById,
+    loading,
+    activeCount: jobs.filter(isActiveJob).length,
+    submit,
+    retry,
+    cancel,
+    remove,
+    clearFinished
+  }
+}
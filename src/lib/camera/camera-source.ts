@@ -0,0 +1,87 @@
+export interface CameraDevice {
+  id: string
+  label: string
+}
+
+// Where the capture dialog gets its video from. Swap in the fake camera to
+// work on the capture flow without a webcam or a permission prompt.
+export interface CameraSource {
+  name: string
+  open(deviceId?: string): Promise<MediaStream>
+  // Labels are only filled in once the user has granted camera access
+  listDevices(): Promise<CameraDevice[]>
+}
+
+export const cameraSupported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+
+export function stopStream(stream: MediaStream | null) {
+  stream?.getTracks().forEach(track => track.stop())
+}
+
+export function createMediaDevicesCamera(): CameraSource {
+  return {
+    name: 'camera',
+    open: (deviceId) => navigator.mediaDevices.getUserMedia({
+      video: deviceId
+        ? { deviceId: { exact: deviceId }, width: { ideal: 1920 }, height: { ideal: 1080 } }
+        : { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    }),
+    listDevices: async () => {
+      const devices = await navigator.mediaDevices.enumerateDevices()
+      return devices
+        .filter(device => device.kind === 'videoinput')
+        .map((device, index) => ({ id: device.deviceId, label: device.label || `Camera ${index + 1}` }))
+    }
+  }
+}
+
+const FAKE_DEVICES: CameraDevice[] = [
+  { id: 'fake-front', label: 'Fake camera (front)' },
+  { id: 'fake-back', label: 'Fake camera (back)' }
+]
+
+// Streams an animated test card from a canvas: a moving ball, the device name
+// and a clock, so snapshots taken at different moments are distinguishable
+export function createFakeCamera({ width = 640, height = 480, fps = 30 } = {}): CameraSource {
+  return {
+    name: 'fake',
+    open: async (deviceId = FAKE_DEVICES[0].id) => {
+      const device = FAKE_DEVICES.find(candidate => candidate.id === deviceId) ?? FAKE_DEVICES[0]
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const context = canvas.getContext('2d')
+      if (!context) throw new Error('Canvas 2D context is unavailable')
+
+      const hue = device === FAKE_DEVICES[0] ? 210 : 140
+      const stream = canvas.captureStream(fps)
+      const [track] = stream.getVideoTracks()
+
+      const timer = setInterval(() => {
+        // A stopped track never fires 'ended', so check on each frame instead
+        if (track.readyState === 'ended') {
+          clearInterval(timer)
+          return
+        }
+        const t = Date.now() / 1000
+        context.fillStyle = `hsl(${hue} 60% 85%)`
+        context.fillRect(0, 0, width, height)
+        context.fillStyle = `hsl(${hue} 70% 45%)`
+        context.beginPath()
+        context.arc(width / 2 + Math.cos(t) * width / 3, height / 2 + Math.sin(t * 1.3) * height / 4, 40, 0, Math.PI * 2)
+        context.fill()
+        context.fillStyle = '#1f2937'
+        context.font = 'bold 28px sans-serif'
+        context.fillText(device.label, 24, 48)
+        context.font = '20px monospace'
+        context.fillText(new Date().toLocaleTimeString(), 24, height - 24)
+      }, 1000 / fps)
+
+      return stream
+    },
+    listDevices: async () => FAKE_DEVICES
+  }
+}
+
+export const defaultCameraSource = createMediaDevicesCamera()
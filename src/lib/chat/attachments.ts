@@ -0,0 +1,83 @@
+import { createId } from '../utils'
+import { downscaleImage, jpegName } from '../images/downscale'
+import type { ChatProvider } from '../providers/types'
+import type { Attachment } from './types'
+
+export const MAX_ATTACHMENTS = 5
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+export const MAX_TEXT_BYTES = 200 * 1024
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+// GIFs are passed through untouched so animations survive
+const RESIZABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|js|jsx|ts|tsx|py|java|c|cpp|h|cs|go|rs|rb|php|html|css|xml|yml|yaml|sql|sh|log)$/i
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AttachmentError'
+  }
+}
+
+const isText = (file: File) => file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.test(file.name)
+
+export function readDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export async function readAttachment(file: File): Promise<Attachment> {
+  const base = { id: createId(), name: file.name || 'pasted-file', mimeType: file.type, size: file.size }
+
+  if (IMAGE_TYPES.includes(file.type)) {
+    if (file.size > MAX_IMAGE_BYTES) throw new AttachmentError(`${base.name} is too large (images up to 10 MB).`)
+    if (RESIZABLE_TYPES.includes(file.type)) return createImageAttachment(await downscaleImage(file), base.name)
+    return { ...base, kind: 'image', url: await readDataUrl(file) }
+  }
+
+  if (isText(file)) {
+    if (file.size > MAX_TEXT_BYTES) throw new AttachmentError(`${base.name} is too large (text files up to 200 KB).`)
+    return { ...base, kind: 'text', text: await file.text() }
+  }
+
+  throw new AttachmentError(`${base.name} isn't supported. Attach images or text files.`)
+}
+
+// `image` should already be downscaled and re-encoded (see images/downscale.ts)
+export async function createImageAttachment(image: Blob, name: string): Promise<Attachment> {
+  return {
+    id: createId(),
+    kind: 'image',
+    name: jpegName(name),
+    mimeType: image.type,
+    size: image.size,
+    url: await readDataUrl(image)
+  }
+}
+
+const dataUrlToBlob = async (url: string) => (await fetch(url)).blob()
+
+// Models need a real URL; data URLs are uploaded, anything else passes through
+export async function uploadDataUrl(url: string, path: string, provider: ChatProvider): Promise<string> {
+  if (!url.startsWith('data:')) return url
+  return provider.uploadFile(await dataUrlToBlob(url), path)
+}
+
+// Images are held as data URLs while composing; upload them just before sending
+export async function uploadAttachments(attachments: Attachment[], provider: ChatProvider): Promise<Attachment[]> {
+  return Promise.all(attachments.map(async attachment => {
+    if (attachment.kind !== 'image' || !attachment.url) return attachment
+    const url = await uploadDataUrl(attachment.url, `attachments/${attachment.id}-${attachment.name}`, provider)
+    return { ...attachment, url }
+  }))
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
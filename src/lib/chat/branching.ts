@@ -0,0 +1,114 @@
+import { createId } from '../utils'
+import type { Conversation, Message } from './types'
+
+export interface BranchPosition {
+  index: number
+  total: number
+  siblings: Message[]
+}
+
+// Makes every message point at the one before it
+export function linkThread(messages: Message[]): Message[] {
+  return messages.map((message, index) => {
+    const parentId = index === 0 ? null : messages[index - 1].id
+    return message.parentId === parentId ? message : { ...message, parentId }
+  })
+}
+
+function allMessages(conversation: Conversation): Message[] {
+  return [...conversation.messages, ...(conversation.branches ?? [])]
+}
+
+const byTime = (a: Message, b: Message) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+
+export function branchPosition(conversation: Conversation, messageId: string): BranchPosition | null {
+  const message = conversation.messages.find(candidate => candidate.id === messageId)
+  if (!message) return null
+
+  const parentId = message.parentId ?? null
+  const siblings = allMessages(conversation)
+    .filter(candidate => (candidate.parentId ?? null) === parentId && candidate.role === message.role)
+    .sort(byTime)
+
+  return { index: siblings.findIndex(sibling => sibling.id === messageId), total: siblings.length, siblings }
+}
+
+// Rebuilds the active thread so it runs through `messageId`, continuing down
+// the most recent reply at every later fork.
+export function selectBranch(conversation: Conversation, messageId: string): Conversation {
+  const nodes = allMessages(conversation)
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const target = byId.get(messageId)
+  if (!target) return conversation
+
+  const thread: Message[] = []
+  for (let node: Message | undefined = target; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    thread.unshift(node)
+  }
+
+  for (;;) {
+    const lastId = thread[thread.length - 1].id
+    const children = nodes.filter(node => node.parentId === lastId).sort(byTime)
+    if (children.length === 0) break
+    thread.push(children[children.length - 1])
+  }
+
+  const active = new Set(thread.map(node => node.id))
+  return {
+    ...conversation,
+    messages: thread,
+    branches: nodes.filter(node => !active.has(node.id))
+  }
+}
+
+export function switchBranch(conversation: Conversation, messageId: string, offset: number): Conversation {
+  const position = branchPosition(conversation, messageId)
+  if (!position) return conversation
+
+  const sibling = position.siblings[position.index + offset]
+  return sibling ? selectBranch(conversation, sibling.id) : conversation
+}
+
+// Adds an edited copy of a message as a new sibling and makes it the end of
+// the active thread; the original and its replies stay on their own branch.
+export function editMessage(
+  conversation: Conversation,
+  messageId: string,
+  content: string
+): { conversation: Conversation; message: Message } | null {
+  const index = conversation.messages.findIndex(message => message.id === messageId)
+  if (index === -1) return null
+
+  const original = conversation.messages[index]
+  const edited: Message = {
+    ...original,
+    id: createId(),
+    content,
+    timestamp: new Date(),
+    parentId: original.parentId ?? null,
+    status: undefined
+  }
+
+  return {
+    message: edited,
+    conversation: {
+      ...conversation,
+      messages: [...conversation.messages.slice(0, index), edited],
+      branches: [...(conversation.branches ?? []), ...conversation.messages.slice(index)]
+    }
+  }
+}
+
+// Parks an assistant reply (and anything after it) on a branch so a new
+// candidate can be streamed in its place; the active thread then ends at the
+// turn being answered.
+export function regenerateReply(conversation: Conversation, messageId: string): Conversation | null {
+  const index = conversation.messages.findIndex(message => message.id === messageId)
+  if (index === -1 || conversation.messages[index].role !== 'assistant') return null
+
+  return {
+    ...conversation,
+    messages: conversation.messages.slice(0, index),
+    branches: [...(conversation.branches ?? []), ...conversation.messages.slice(index)]
+  }
+}
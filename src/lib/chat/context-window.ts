@@ -0,0 +1,121 @@
+import type { ChatProvider, ChatTurn } from '../providers/types'
+import { toChatTurns } from './streaming'
+import type { ContextSummary, Message } from './types'
+
+export const DEFAULT_CONTEXT_BUDGET = 4000
+export const CONTEXT_BUDGETS = [2000, 4000, 8000, 16000, 32000]
+
+// Role markers and separators the API wraps around each message
+const MESSAGE_OVERHEAD = 4
+
+// Roughly four characters per token for English text; characters outside
+// ASCII (CJK, emoji) tend to be a token or more each.
+export function estimateTokens(text: string): number {
+  let ascii = 0
+  let other = 0
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++
+    else other++
+  }
+  return Math.ceil(ascii / 4) + other
+}
+
+export function estimateTurnTokens(turns: ChatTurn[]): number {
+  return turns.reduce((total, turn) => total + estimateTokens(turn.content) + MESSAGE_OVERHEAD, 0)
+}
+
+const messageTokens = (message: Message) => estimateTurnTokens(toChatTurns([message]))
+
+// A summary only holds while everything it covers is still on the active
+// thread; editing or switching branches above it invalidates it.
+export function activeSummary(messages: Message[], summary: ContextSummary | undefined): ContextSummary | undefined {
+  if (!summary) return undefined
+  const ids = new Set(messages.map(message => message.id))
+  return summary.coveredIds.every(id => ids.has(id)) ? summary : undefined
+}
+
+export const summaryTurn = (summary: ContextSummary): ChatTurn => ({
+  role: 'system',
+  content: `Summary of the earlier conversation:\n${summary.text}`
+})
+
+export interface ContextPlan {
+  turns: ChatTurn[]
+  tokens: number
+  // Older, unpinned messages that no longer fit and aren't summarised yet
+  overflow: Message[]
+}
+
+// Keeps the newest messages that fit in `budget`, always keeping pinned ones
+// and standing in for summarised ones with the summary.
+export function planContext(messages: Message[], budget: number, summary?: ContextSummary): ContextPlan {
+  const current = activeSummary(messages, summary)
+  const covered = new Set(current?.coveredIds)
+  const pinned = messages.filter(message => message.pinned)
+
+  let remaining = budget
+    - (current ? estimateTurnTokens([summaryTurn(current)]) : 0)
+    - pinned.reduce((total, message) => total + messageTokens(message), 0)
+
+  const kept = new Set(pinned.map(message => message.id))
+  const overflow: Message[] = []
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index]
+    if (kept.has(message.id) || covered.has(message.id)) continue
+
+    const cost = messageTokens(message)
+    // The latest message is always sent, however long it is
+    if (cost <= remaining || index === messages.length - 1) {
+      kept.add(message.id)
+      remaining -= cost
+    } else {
+      // Once something is dropped, everything older goes too so the kept
+      // window stays contiguous
+      overflow.unshift(...messages.slice(0, index + 1).filter(older => !kept.has(older.id) && !covered.has(older.id)))
+      break
+    }
+  }
+
+  const turns = [
+    ...(current ? [summaryTurn(current)] : []),
+    ...toChatTurns(messages.filter(message => kept.has(message.id)))
+  ]
+
+  return { turns, tokens: estimateTurnTokens(turns), overflow }
+}
+
+const SUMMARY_INSTRUCTIONS = 'Summarise the conversation below for your own future reference. '
+  + 'Keep names, facts, decisions, open questions and anything the user asked you to remember. '
+  + 'Write compact prose or bullet points, no more than 200 words, with no preamble.'
+
+// Folds `messages` into the previous summary so a single rolling summary
+// stands in for everything that has scrolled out of the window
+export async function summarise(
+  provider: ChatProvider,
+  messages: Message[],
+  previous?: ContextSummary,
+  signal?: AbortSignal
+): Promise<ContextSummary> {
+  const transcript = toChatTurns(messages)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Albert'}: ${turn.content}`)
+    .join('\n\n')
+
+  const { text } = await provider.generateText({
+    messages: [
+      { role: 'system', content: SUMMARY_INSTRUCTIONS },
+      {
+        role: 'user',
+        content: previous ? `Earlier summary:\n${previous.text}\n\nNewer messages:\n${transcript}` : transcript
+      }
+    ],
+    temperature: 0.2,
+    signal
+  })
+
+  return {
+    text: text.trim(),
+    coveredIds: [...(previous?.coveredIds ?? []), ...messages.map(message => message.id)],
+    createdAt: new Date()
+  }
+}
@@ -0,0 +1,80 @@
+import { createId } from '../utils'
+import { createIndexedDbStore } from '../storage/indexeddb'
+import { userScopedStore } from '../storage/user-scope'
+import type { RecordStore } from '../storage/record-store'
+import type { Conversation, Message } from './types'
+
+export type ConversationBackend = RecordStore<Conversation>
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat'
+
+// Looks up the signed-in user's store on every call, so the backend can be
+// created before sign-in resolves and follows a switch of account
+export function createConversationBackend(): ConversationBackend {
+  const store = () => userScopedStore<Conversation>('conversations')
+  return {
+    list: async () => {
+      const stored = await store().list()
+      return stored.length > 0 ? stored : claimUnscopedConversations(store())
+    },
+    get: id => store().get(id),
+    put: record => store().put(record),
+    remove: id => store().remove(id),
+    clear: () => store().clear()
+  }
+}
+
+// Conversations used to be kept in one store for everyone on the browser.
+// The first account to open the app after the change takes them over, and
+// the shared store is emptied so no other account sees them.
+async function claimUnscopedConversations(target: ConversationBackend): Promise<Conversation[]> {
+  const shared = createIndexedDbStore<Conversation>('conversations')
+  const conversations = await shared.list()
+  if (conversations.length === 0) return []
+
+  await Promise.all(conversations.map(conversation => target.put(conversation)))
+  await shared.clear()
+  return conversations
+}
+
+export function createConversation(title = DEFAULT_CONVERSATION_TITLE): Conversation {
+  const now = new Date()
+  return {
+    id: createId(),
+    title,
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Derive a title from the first user prompt so new chats don't all read "New chat"
+export function deriveTitle(messages: Message[]): string {
+  const firstPrompt = messages.find(message => message.role === 'user' && message.content.trim())
+  if (!firstPrompt) return DEFAULT_CONVERSATION_TITLE
+
+  const title = firstPrompt.content.trim().replace(/\s+/g, ' ')
+  return title.length > 40 ? `${title.slice(0, 40)}…` : title
+}
+
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+// Replies still streaming; video messages are left out, their jobs keep
+// running on the server and update them when they finish
+const isInterruptedReply = (message: Message) => message.status === 'streaming' && !message.videoJobId
+
+export const hasStreamingReply = (conversation: Conversation) => conversation.messages.some(isInterruptedReply)
+
+// A reply that was streaming when the page closed will never finish; keep
+// what arrived as a stopped reply that can be continued
+export function settleInterruptedReplies(conversation: Conversation): Conversation {
+  if (!hasStreamingReply(conversation)) return conversation
+  return {
+    ...conversation,
+    messages: conversation.messages.map(message => isInterruptedReply(message)
+      ? { ...message, status: message.content ? 'stopped' : 'error' }
+      : message)
+  }
+}
@@ -0,0 +1,72 @@
+export interface DiffPart {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean)
+
+// Above this many table cells (about 16 MB) the changed middle is shown as one
+// removed block and one added block instead of word by word
+const MAX_LCS_CELLS = 4_000_000
+
+// Word-level diff from `before` to `after` using a longest common subsequence
+export function diffWords(before: string, after: string): DiffPart[] {
+  const allA = tokenize(before)
+  const allB = tokenize(after)
+
+  // Unchanged openings and endings don't need the table
+  let prefix = 0
+  while (prefix < allA.length && prefix < allB.length && allA[prefix] === allB[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < allA.length - prefix &&
+    suffix < allB.length - prefix &&
+    allA[allA.length - 1 - suffix] === allB[allB.length - 1 - suffix]
+  ) suffix++
+
+  const a = allA.slice(prefix, allA.length - suffix)
+  const b = allB.slice(prefix, allB.length - suffix)
+  const width = b.length + 1
+  const tooLarge = (a.length + 1) * width > MAX_LCS_CELLS
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array(tooLarge ? 0 : (a.length + 1) * width)
+  if (!tooLarge) {
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (kind: DiffPart['kind'], text: string) => {
+    if (!text) return
+    const last = parts[parts.length - 1]
+    if (last?.kind === kind) last.text += text
+    else parts.push({ kind, text })
+  }
+
+  push('same', allA.slice(0, prefix).join(''))
+
+  let i = 0
+  let j = 0
+  while (!tooLarge && i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  push('same', allA.slice(allA.length - suffix).join(''))
+  return parts
+}
@@ -0,0 +1,20 @@
+const FLASH_CLASS = 'animate-flash'
+const MAX_ATTEMPTS = 30
+
+// Scrolls a rendered message into view and briefly highlights it. Messages are
+// found by their data-message-id attribute; after switching conversation the
+// element may not exist yet, so keep looking for a few frames.
+export function flashMessage(messageId: string, attempt = 0) {
+  const element = document.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(messageId)}"]`)
+  if (!element) {
+    if (attempt < MAX_ATTEMPTS) requestAnimationFrame(() => flashMessage(messageId, attempt + 1))
+    return
+  }
+
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  element.classList.remove(FLASH_CLASS)
+  // Force a reflow so flashing the same message twice restarts the animation
+  void element.offsetWidth
+  element.classList.add(FLASH_CLASS)
+  element.addEventListener('animationend', () => element.classList.remove(FLASH_CLASS), { once: true })
+}
@@ -0,0 +1,70 @@
+import { provider } from '../providers'
+import { replayText } from '../providers/mock-provider'
+import type { ChatProvider, ChatTurn, TextResult } from '../providers/types'
+import type { Message } from './types'
+
+export type { ChatTurn }
+
+export interface StreamRequest {
+  messages: ChatTurn[]
+  signal: AbortSignal
+  temperature?: number
+  onChunk: (chunk: string) => void
+}
+
+export type StreamSource = (request: StreamRequest) => Promise<TextResult>
+
+export const CONTINUE_PROMPT = 'Continue your previous answer exactly where it stopped. Do not repeat anything you already wrote.'
+
+// Text attachments are inlined after the message; images go as multimodal input
+function toChatTurn({ role, content, attachments = [] }: Message): ChatTurn {
+  const files = attachments
+    .filter(attachment => attachment.kind === 'text')
+    .map(attachment => `\n\nAttached file "${attachment.name}":\n\`\`\`\n${attachment.text ?? ''}\n\`\`\``)
+  const images = attachments.flatMap(attachment => attachment.kind === 'image' && attachment.url ? [attachment.url] : [])
+
+  return { role, content: content + files.join(''), ...(images.length > 0 && { images }) }
+}
+
+export function toChatTurns(messages: Message[]): ChatTurn[] {
+  return messages
+    .filter(message =>
+      message.type !== 'persona'
+      && (message.content.trim() || message.attachments?.length)
+      && message.status !== 'error'
+    )
+    .map(toChatTurn)
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException
+    ? error.name === 'AbortError'
+    : error instanceof Error && error.name === 'AbortError'
+}
+
+export function createProviderStreamSource(chatProvider: ChatProvider = provider): StreamSource {
+  return ({ messages, signal, temperature, onChunk }) => chatProvider.streamText({ messages, signal, temperature }, onChunk)
+}
+
+export const defaultStreamSource = createProviderStreamSource()
+
+interface FakeStreamOptions {
+  chunkSize?: number
+  delayMs?: number
+  // Cut the reply after this many characters and report finishReason 'length'
+  truncateAt?: number
+}
+
+// Replays a scripted reply in small chunks so streaming, stop and continue can
+// be exercised without the network.
+export function createFakeStreamSource(
+  reply: string | ((messages: ChatTurn[]) => string),
+  { chunkSize = 4, delayMs = 30, truncateAt }: FakeStreamOptions = {}
+): StreamSource {
+  return async ({ messages, signal, onChunk }) => {
+    const full = typeof reply === 'function' ? reply(messages) : reply
+    const text = truncateAt !== undefined ? full.slice(0, truncateAt) : full
+    await replayText(text, { signal, chunkSize, delayMs, onChunk })
+    return { text, finishReason: text.length < full.length ? 'length' : 'stop' }
+  }
+}
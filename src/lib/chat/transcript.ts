@@ -0,0 +1,353 @@
+import { format } from 'date-fns'
+import { z } from 'zod'
+import { createId } from '../utils'
+import type { Conversation, Message } from './types'
+
+// Bump when the JSON shape changes incompatibly and teach parseTranscript to
+// upgrade older files
+export const TRANSCRIPT_VERSION = 1
+const TRANSCRIPT_FORMAT = 'albert-conversations'
+
+// Imported files are untrusted and these URLs end up in <img src> and links,
+// so only web addresses and inline images or videos are accepted
+const mediaUrlSchema = z.string().regex(/^(https?:|blob:|data:(image|video)\/)/i, 'Unsupported media URL')
+
+const messageSchema = z.object({
+  id: z.string().min(1),
+  content: z.string(),
+  role: z.enum(['user', 'assistant']),
+  timestamp: z.coerce.date(),
+  type: z.enum(['text', 'image', 'video', 'game', 'persona']).optional(),
+  mediaUrl: mediaUrlSchema.optional(),
+  imageSettings: z.object({
+    prompt: z.string(),
+    aspect: z.string(),
+    style: z.string(),
+    negativePrompt: z.string(),
+    seed: z.number(),
+    variants: z.number()
+  }).optional(),
+  sourceImageId: z.string().optional(),
+  videoJobId: z.string().optional(),
+  status: z.enum(['streaming', 'complete', 'stopped', 'truncated', 'error']).optional(),
+  gameId: z.string().optional(),
+  gameState: z.string().optional(),
+  personaId: z.string().optional(),
+  parentId: z.string().nullable().optional(),
+  attachments: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(['image', 'text']),
+    name: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+    url: mediaUrlSchema.optional(),
+    text: z.string().optional()
+  })).optional(),
+  pinned: z.boolean().optional()
+})
+
+const conversationSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  messages: z.array(messageSchema),
+  branches: z.array(messageSchema).optional(),
+  personaId: z.string().optional(),
+  summary: z.object({
+    text: z.string(),
+    coveredIds: z.array(z.string()),
+    createdAt: z.coerce.date()
+  }).optional(),
+  contextBudget: z.number().positive().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+})
+
+const transcriptSchema = z.object({
+  format: z.literal(TRANSCRIPT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.coerce.date(),
+  conversations: z.array(conversationSchema)
+})
+
+export function toTranscriptJson(conversations: Conversation[]): string {
+  return JSON.stringify({
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date(),
+    conversations
+  }, null, 2)
+}
+
+export type ParseTranscriptResult =
+  | { ok: true; conversations: Conversation[] }
+  | { ok: false; error: string }
+
+export function parseTranscript(text: string): ParseTranscriptResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, error: "This file isn't valid JSON." }
+  }
+
+  const version = (data as { version?: unknown } | null)?.version
+  if (typeof version === 'number' && version > TRANSCRIPT_VERSION) {
+    return { ok: false, error: `This file was exported by a newer version of Albert (format v${version}).` }
+  }
+
+  const parsed = transcriptSchema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : ''
+    return { ok: false, error: `This doesn't look like an Albert export: ${issue.message}${where}.` }
+  }
+
+  return { ok: true, conversations: parsed.data.conversations }
+}
+
+export type ImportConflictStrategy = 'copy' | 'replace' | 'skip'
+
+export interface ImportPlan {
+  conversations: Conversation[]
+  added: number
+  replaced: number
+  skipped: number
+}
+
+// Gives a conversation fresh conversation and message ids, keeping branch
+// links and summary coverage pointing at the right messages
+function withFreshIds(conversation: Conversation): Conversation {
+  const ids = new Map<string, string>()
+  const remap = (id: string) => {
+    let next = ids.get(id)
+    if (!next) {
+      next = createId()
+      ids.set(id, next)
+    }
+    return next
+  }
+  const remapMessage = (message: Message): Message => ({
+    ...message,
+    id: remap(message.id),
+    parentId: message.parentId ? remap(message.parentId) : message.parentId
+  })
+
+  return {
+    ...conversation,
+    id: createId(),
+    messages: conversation.messages.map(remapMessage),
+    branches: conversation.branches?.map(remapMessage),
+    summary: conversation.summary && {
+      ...conversation.summary,
+      coveredIds: conversation.summary.coveredIds.map(remap)
+    }
+  }
+}
+
+const messageIds = (conversation: Conversation) =>
+  [...conversation.messages, ...(conversation.branches ?? [])].map(message => message.id)
+
+// Decides what to do with imported conversations whose ids already exist.
+// Message ids must stay unique across all conversations (search, branches),
+// so anything clashing with another conversation's messages is re-keyed too.
+export function planImport(
+  imported: Conversation[],
+  existing: Conversation[],
+  strategy: ImportConflictStrategy
+): ImportPlan {
+  const existingIds = new Set(existing.map(conversation => conversation.id))
+  // Ids already used by earlier conversations in this same import
+  const plannedIds = new Set<string>()
+  const plannedMessageIds = new Set<string>()
+  const plan: ImportPlan = { conversations: [], added: 0, replaced: 0, skipped: 0 }
+
+  for (const conversation of imported) {
+    const repeated = plannedIds.has(conversation.id)
+    const duplicate = repeated || existingIds.has(conversation.id)
+    if (duplicate && strategy === 'skip') {
+      plan.skipped++
+      continue
+    }
+
+    // Only stored conversations are replaced; a repeat within the file is kept as a copy
+    const replacing = duplicate && strategy === 'replace' && !repeated
+    const copying = duplicate && !replacing
+    const takenMessageIds = new Set([
+      ...existing.filter(other => !(replacing && other.id === conversation.id)).flatMap(messageIds),
+      ...plannedMessageIds
+    ])
+    const clashes = messageIds(conversation).some(id => takenMessageIds.has(id))
+
+    let next = conversation
+    if (copying || clashes) {
+      next = withFreshIds(conversation)
+      if (copying) next.title = `${conversation.title} (imported)`
+    }
+
+    plan.conversations.push(next)
+    plannedIds.add(next.id)
+    messageIds(next).forEach(id => plannedMessageIds.add(id))
+    if (replacing) plan.replaced++
+    else plan.added++
+  }
+
+  return plan
+}
+
+const speaker = (message: Message) => message.role === 'user' ? 'You' : 'Albert'
+const timeOf = (message: Message) => format(new Date(message.timestamp), 'PPp')
+
+const countBranches = (conversation: Conversation) => conversation.branches?.length ?? 0
+
+export function toMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_Exported ${format(new Date(), 'PPp')} · ${conversation.messages.length} messages_`,
+    ''
+  ]
+
+  if (conversation.summary) {
+    lines.push('> **Summary of earlier messages:** ' + conversation.summary.text.replace(/\n/g, '\n> '), '')
+  }
+
+  for (const message of conversation.messages) {
+    if (message.type === 'persona') {
+      lines.push(`---`, '', `_${message.content}_`, '')
+      continue
+    }
+
+    lines.push(`### ${speaker(message)} · ${timeOf(message)}`, '')
+    if (message.type === 'image' && message.mediaUrl) lines.push(`![${message.content}](${message.mediaUrl})`, '')
+    if (message.type === 'video' && message.mediaUrl) lines.push(`[Video: ${message.content}](${message.mediaUrl})`, '')
+    lines.push(message.type === 'game' ? '```\n' + message.content + '\n```' : message.content, '')
+  }
+
+  const branches = countBranches(conversation)
+  if (branches > 0) {
+    lines.push('---', '', `_${branches} messages on other branches are included in the JSON export only._`, '')
+  }
+
+  return lines.join('\n')
+}
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// Paragraphs and fenced code only; the printout needs to be readable, not a
+// full markdown render
+function contentToHtml(content: string): string {
+  return content.split(/```[^\n]*\n?/).map((part, index) => {
+    if (index % 2 === 1) return `<pre><code>${escapeHtml(part.replace(/\n$/, ''))}</code></pre>`
+    return part.split(/\n{2,}/)
+      .filter(paragraph => paragraph.trim())
+      .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+      .join('')
+  }).join('')
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111827; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.85rem; margin-bottom: 1.5rem; }
+  .message { border-left: 3px solid #e5e7eb; padding: 0.25rem 0 0.25rem 0.75rem; margin: 1rem 0; break-inside: avoid; }
+  .message.user { border-color: #3b82f6; }
+  .speaker { font-weight: 600; font-size: 0.85rem; }
+  .time { color: #9ca3af; font-weight: 400; margin-left: 0.5rem; }
+  .marker { text-align: center; color: #6b7280; font-size: 0.85rem; font-style: italic; margin: 1.5rem 0; }
+  .summary { background: #f9fafb; border: 1px dashed #d1d5db; padding: 0.75rem; font-size: 0.9rem; }
+  pre { background: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; white-space: pre-wrap; font-size: 0.85rem; }
+  img { max-width: 100%; border-radius: 0.375rem; }
+  a { color: #2563eb; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+`
+
+export function toPrintableHtml(conversation: Conversation): string {
+  const body = conversation.messages.map(message => {
+    if (message.type === 'persona') return `<p class="marker">${escapeHtml(message.content)}</p>`
+
+    const media = message.type === 'image' && message.mediaUrl
+      ? `<img src="${escapeHtml(message.mediaUrl)}" alt="${escapeHtml(message.content)}">`
+      : message.type === 'video' && message.mediaUrl
+        ? `<p><a href="${escapeHtml(message.mediaUrl)}">Watch video</a></p>`
+        : ''
+    const content = message.type === 'game'
+      ? `<pre>${escapeHtml(message.content)}</pre>`
+      : contentToHtml(message.content)
+
+    return `<div class="message ${message.role}">
+  <div class="speaker">${speaker(message)}<span class="time">${escapeHtml(timeOf(message))}</span></div>
+  ${media}${content}
+</div>`
+  }).join('\n')
+
+  const summary = conversation.summary
+    ? `<div class="summary"><strong>Summary of earlier messages:</strong>${contentToHtml(conversation.summary.text)}</div>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Conversation with Albert · started ${escapeHtml(format(new Date(conversation.createdAt), 'PPp'))} · exported ${escapeHtml(format(new Date(), 'PPp'))}</p>
+${summary}
+${body}
+</body>
+</html>`
+}
+
+export const transcriptFileName = (conversation: Conversation, extension: string) =>
+  `${conversation.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'conversation'}.${extension}`
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Some browsers start the download after click() returns, so the URL has
+  // to outlive this call for a moment
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Prints through a hidden iframe so the user can save the transcript as a PDF
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  // No scripts run in the transcript; same-origin is kept only so print() can
+  // be called on it from here
+  frame.sandbox.add('allow-modals', 'allow-same-origin')
+  frame.srcdoc = html
+  frame.onload = () => {
+    frame.contentWindow?.print()
+    setTimeout(() => frame.remove(), 1000)
+  }
+  document.body.appendChild(frame)
+}
+
+export const TRANSCRIPT_FORMATS = ['markdown', 'json', 'html', 'print'] as const
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number]
+
+export function exportConversation(conversation: Conversation, transcriptFormat: TranscriptFormat) {
+  switch (transcriptFormat) {
+    case 'markdown':
+      return downloadFile(transcriptFileName(conversation, 'md'), toMarkdown(conversation), 'text/markdown')
+    case 'json':
+      return downloadFile(transcriptFileName(conversation, 'json'), toTranscriptJson([conversation]), 'application/json')
+    case 'html':
+      return downloadFile(transcriptFileName(conversation, 'html'), toPrintableHtml(conversation), 'text/html')
+    case 'print':
+      return printHtml(toPrintableHtml(conversation))
+  }
+}
@@ -0,0 +1,74 @@
+// 'stopped' and 'truncated' replies can be resumed with a continue request
+export type MessageStatus = 'streaming' | 'complete' | 'stopped' | 'truncated' | 'error'
+
+export interface Attachment {
+  id: string
+  kind: 'image' | 'text'
+  name: string
+  mimeType: string
+  size: number
+  // Images: a data URL until uploaded, then the uploaded file's URL
+  url?: string
+  // Text files: the file contents
+  text?: string
+}
+
+// How an image message was generated (see lib/images/studio.ts)
+export interface ImageSettings {
+  prompt: string
+  aspect: string
+  style: string
+  negativePrompt: string
+  seed: number
+  variants: number
+}
+
+export interface Message {
+  id: string
+  content: string
+  role: 'user' | 'assistant'
+  timestamp: Date
+  // 'persona' messages only mark a persona switch and are never sent as context
+  type?: 'text' | 'image' | 'video' | 'game' | 'persona'
+  mediaUrl?: string
+  imageSettings?: ImageSettings
+  // Edited images: the image message they were made from
+  sourceImageId?: string
+  // Video messages: the job rendering it (see lib/video/jobs.ts)
+  videoJobId?: string
+  status?: MessageStatus
+  // Game messages: registry id and the game's serialised state
+  gameId?: string
+  gameState?: string
+  // Persona markers: the persona switched to
+  personaId?: string
+  // Previous message in the thread; null for the first message
+  parentId?: string | null
+  attachments?: Attachment[]
+  // Pinned messages are always sent as context and never summarised away
+  pinned?: boolean
+}
+
+// Rolling summary standing in for older messages that no longer fit the
+// context budget
+export interface ContextSummary {
+  text: string
+  coveredIds: string[]
+  createdAt: Date
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  // The active thread, oldest first
+  messages: Message[]
+  // Messages on inactive branches (earlier edits and their replies)
+  branches?: Message[]
+  // Falls back to the default persona when unset
+  personaId?: string
+  summary?: ContextSummary
+  // Token budget for the context sent with each request
+  contextBudget?: number
+  createdAt: Date
+  updatedAt: Date
+}
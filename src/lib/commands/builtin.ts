@@ -0,0 +1,94 @@
+import { getGame, listGames } from '../games/registry'
+import { personaAllows, type Persona, type PersonaTool } from '../personas/personas'
+import { TRANSCRIPT_FORMATS, type TranscriptFormat } from '../chat/transcript'
+import { CommandError, registerCommand } from './registry'
+import '../games/builtin'
+
+const TOOL_NAMES: Record<PersonaTool, string> = { image: 'images', video: 'videos', game: 'games' }
+
+function requireTool(persona: Persona, tool: PersonaTool) {
+  if (!personaAllows(persona, tool)) {
+    throw new CommandError(`${persona.name} can't make ${TOOL_NAMES[tool]}. Switch persona with /persona first.`)
+  }
+}
+
+function requirePrompt(args: string, usage: string): string {
+  if (!args) throw new CommandError(`Describe what you want, e.g. ${usage}`)
+  return args
+}
+
+registerCommand({
+  name: 'image',
+  description: 'Generate an image',
+  argumentHint: '<prompt>',
+  run: (args, context) => {
+    requireTool(context.persona, 'image')
+    return context.generateImage(requirePrompt(args, '/image a fox reading a book'))
+  }
+})
+
+registerCommand({
+  name: 'video',
+  description: 'Generate a short video',
+  argumentHint: '<prompt>',
+  run: (args, context) => {
+    requireTool(context.persona, 'video')
+    return context.generateVideo(requirePrompt(args, '/video waves rolling onto a beach'))
+  }
+})
+
+registerCommand({
+  name: 'game',
+  description: 'Start a game with Albert',
+  argumentHint: '<game>',
+  suggestArguments: () => listGames().map(game => game.id),
+  run: (args, context) => {
+    requireTool(context.persona, 'game')
+    const gameId = args.toLowerCase() || 'tictactoe'
+    if (!getGame(gameId)) {
+      throw new CommandError(`There's no game called "${args}". Try ${listGames().map(game => game.id).join(', ')}.`)
+    }
+    context.startGame(gameId)
+  }
+})
+
+registerCommand({
+  name: 'persona',
+  description: 'Switch who Albert is',
+  argumentHint: '<name>',
+  suggestArguments: (_partial, context) => context.personas.map(persona => persona.name),
+  run: (args, context) => {
+    const name = args.toLowerCase()
+    const persona = context.personas.find(candidate => candidate.name.toLowerCase() === name || candidate.id === name)
+    if (!persona) {
+      throw new CommandError(`Pick a persona: ${context.personas.map(candidate => candidate.name).join(', ')}.`)
+    }
+    context.setPersona(persona)
+  }
+})
+
+registerCommand({
+  name: 'clear',
+  description: 'Clear this conversation',
+  run: (_args, context) => context.clearConversation()
+})
+
+registerCommand({
+  name: 'summarize',
+  description: 'Summarise the conversation so far',
+  run: (_args, context) => context.summarizeConversation()
+})
+
+registerCommand({
+  name: 'export',
+  description: 'Download this conversation',
+  argumentHint: '<markdown|json|html|print>',
+  suggestArguments: () => [...TRANSCRIPT_FORMATS],
+  run: (args, context) => {
+    const format = (args.toLowerCase() || 'markdown') as TranscriptFormat
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      throw new CommandError(`Export as ${TRANSCRIPT_FORMATS.join(', ')}.`)
+    }
+    context.exportConversation(format)
+  }
+})
@@ -0,0 +1,113 @@
+import type { TranscriptFormat } from '../chat/transcript'
+import type { Persona } from '../personas/personas'
+
+// What commands can ask the chat to do. The composer's owner provides these.
+export interface CommandContext {
+  persona: Persona
+  personas: Persona[]
+  generateImage(prompt: string): void | Promise<void>
+  generateVideo(prompt: string): void | Promise<void>
+  startGame(gameId: string): void
+  setPersona(persona: Persona): void
+  clearConversation(): void
+  summarizeConversation(): void | Promise<void>
+  exportConversation(format: TranscriptFormat): void
+}
+
+export interface SlashCommand {
+  name: string
+  description: string
+  // Shown after the name while typing, e.g. "<prompt>"
+  argumentHint?: string
+  suggestArguments?(partial: string, context: CommandContext): string[]
+  run(args: string, context: CommandContext): void | Promise<void>
+}
+
+// Thrown by commands for problems the user can fix; the message is shown
+// inline under the composer
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CommandError'
+  }
+}
+
+const commands = new Map<string, SlashCommand>()
+
+// Re-registering a name replaces the previous command (e.g. on hot reload)
+export function registerCommand(command: SlashCommand) {
+  commands.set(command.name, command)
+}
+
+export function getCommand(name: string): SlashCommand | undefined {
+  return commands.get(name.toLowerCase())
+}
+
+export function listCommands(): SlashCommand[] {
+  return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export interface ParsedCommand {
+  name: string
+  args: string
+  // True once the user has typed past the name
+  hasArgs: boolean
+}
+
+export function parseCommand(input: string): ParsedCommand | null {
+  const match = /^\/(\S*)(\s+([\s\S]*))?$/.exec(input.trimStart())
+  if (!match) return null
+  return { name: match[1].toLowerCase(), args: (match[3] ?? '').trim(), hasArgs: match[2] !== undefined }
+}
+
+export interface CommandSuggestion {
+  // Text the composer is set to when the suggestion is picked
+  completion: string
+  label: string
+  description?: string
+}
+
+export function suggestCommands(input: string, context: CommandContext): CommandSuggestion[] {
+  const parsed = parseCommand(input)
+  if (!parsed) return []
+
+  if (!parsed.hasArgs) {
+    // A complete command with nothing left to type runs on the first Enter
+    const exact = getCommand(parsed.name)
+    if (exact && !exact.argumentHint && !exact.suggestArguments) return []
+
+    return listCommands()
+      .filter(command => command.name.startsWith(parsed.name))
+      .map(command => ({
+        completion: `/${command.name} `,
+        label: `/${command.name}${command.argumentHint ? ` ${command.argumentHint}` : ''}`,
+        description: command.description
+      }))
+  }
+
+  const command = getCommand(parsed.name)
+  if (!command?.suggestArguments) return []
+
+  const partial = parsed.args.toLowerCase()
+  return command.suggestArguments(parsed.args, context)
+    .filter(argument => argument.toLowerCase().startsWith(partial) && argument.toLowerCase() !== partial)
+    .map(argument => ({ completion: `/${command.name} ${argument}`, label: argument }))
+}
+
+const closestCommand = (name: string) =>
+  listCommands().find(command => command.name.startsWith(name.slice(0, 2)))
+
+export async function runCommand(input: string, context: CommandContext): Promise<void> {
+  const parsed = parseCommand(input)
+  if (!parsed) throw new CommandError('Commands start with "/".')
+
+  const command = getCommand(parsed.name)
+  if (!command) {
+    const suggestion = parsed.name && closestCommand(parsed.name)
+    throw new CommandError(
+      `Unknown command "/${parsed.name}".${suggestion ? ` Did you mean /${suggestion.name}?` : ''} Type / to see every command.`
+    )
+  }
+
+  await command.run(parsed.args, context)
+}
@@ -0,0 +1,56 @@
+import { ConnectFour } from '../../components/ConnectFour'
+import { TicTacToeRenderer } from '../../components/TicTacToe'
+import {
+  createConnectFourState,
+  describeConnectFour,
+  dropDisc,
+  findConnectFourMove,
+  isPlayableColumn,
+  type ConnectFourState
+} from './connect-four'
+import { registerGame, type GameResult } from './registry'
+import {
+  createGameState,
+  describeGameState,
+  findBestMove,
+  isLegalMove,
+  playMove,
+  type GameState
+} from './tictactoe'
+
+const resultFor = (winner: string | null, gameOver: boolean, humanPlayer = 'X'): GameResult | null => {
+  if (!gameOver) return null
+  if (!winner) return 'draw'
+  return winner === humanPlayer ? 'win' : 'lose'
+}
+
+registerGame<GameState, number>({
+  id: 'tictactoe',
+  name: 'Tic Tac Toe',
+  description: 'Get three (or more on bigger boards) in a row before Albert does.',
+  createInitialState: () => createGameState(),
+  isValidMove: (state, index) => !state.gameOver && isLegalMove(state.board, index),
+  applyMove: playMove,
+  getAiMove: state => state.gameOver ? null : findBestMove(state.board, state.currentPlayer, state),
+  getResult: state => resultFor(state.winner, state.gameOver, state.humanPlayer),
+  describe: describeGameState,
+  serialize: state => JSON.stringify(state),
+  // Games saved before modes existed were always the player (X) against Albert
+  deserialize: data => ({ mode: 'vs-albert', humanPlayer: 'X', ...JSON.parse(data) }) as GameState,
+  Renderer: TicTacToeRenderer
+})
+
+registerGame<ConnectFourState, number>({
+  id: 'connect-four',
+  name: 'Connect Four',
+  description: 'Drop discs into the grid and connect four in a row.',
+  createInitialState: createConnectFourState,
+  isValidMove: (state, column) => !state.gameOver && isPlayableColumn(state.board, column),
+  applyMove: dropDisc,
+  getAiMove: findConnectFourMove,
+  getResult: state => resultFor(state.winner, state.gameOver),
+  describe: describeConnectFour,
+  serialize: state => JSON.stringify(state),
+  deserialize: data => JSON.parse(data) as ConnectFourState,
+  Renderer: ConnectFour
+})
@@ -0,0 +1,150 @@
+import type { Cell, Player } from './tictactoe'
+
+export const ROWS = 6
+export const COLUMNS = 7
+const WIN_LENGTH = 4
+const WIN_SCORE = 1_000_000
+const SEARCH_DEPTH = 5
+
+export interface ConnectFourState {
+  board: Cell[]
+  columns: number[]
+  currentPlayer: Player
+  winner: Player | null
+  gameOver: boolean
+}
+
+export function createConnectFourState(): ConnectFourState {
+  return { board: Array(ROWS * COLUMNS).fill(null), columns: [], currentPlayer: 'X', winner: null, gameOver: false }
+}
+
+const isColumn = (column: number) => Number.isInteger(column) && column >= 0 && column < COLUMNS
+
+// The row a disc dropped into `column` would land in, or -1 when the column is
+// full or not on the board
+export function landingRow(board: Cell[], column: number): number {
+  if (!isColumn(column)) return -1
+  for (let row = ROWS - 1; row >= 0; row--) {
+    if (board[row * COLUMNS + column] === null) return row
+  }
+  return -1
+}
+
+export const isPlayableColumn = (board: Cell[], column: number) => landingRow(board, column) !== -1
+
+export function validColumns(board: Cell[]): number[] {
+  return Array.from({ length: COLUMNS }, (_, column) => column).filter(column => isPlayableColumn(board, column))
+}
+
+const LINES: number[][] = (() => {
+  const lines: number[][] = []
+  const directions = [[0, 1], [1, 0], [1, 1], [1, -1]]
+  for (let row = 0; row < ROWS; row++) {
+    for (let col = 0; col < COLUMNS; col++) {
+      for (const [dRow, dCol] of directions) {
+        const endRow = row + dRow * (WIN_LENGTH - 1)
+        const endCol = col + dCol * (WIN_LENGTH - 1)
+        if (endRow >= ROWS || endCol < 0 || endCol >= COLUMNS) continue
+        lines.push(Array.from({ length: WIN_LENGTH }, (_, i) => (row + dRow * i) * COLUMNS + col + dCol * i))
+      }
+    }
+  }
+  return lines
+})()
+
+export function findConnectFourLine(board: Cell[]): number[] | null {
+  for (const line of LINES) {
+    const first = board[line[0]]
+    if (first && line.every(index => board[index] === first)) return line
+  }
+  return null
+}
+
+export function dropDisc(state: ConnectFourState, column: number): ConnectFourState {
+  const row = landingRow(state.board, column)
+  if (state.gameOver || row === -1) return state
+
+  const board = [...state.board]
+  board[row * COLUMNS + column] = state.currentPlayer
+  const line = findConnectFourLine(board)
+  const winner = line ? board[line[0]] : null
+
+  return {
+    board,
+    columns: [...state.columns, column],
+    currentPlayer: state.currentPlayer === 'X' ? 'O' : 'X',
+    winner,
+    gameOver: winner !== null || validColumns(board).length === 0
+  }
+}
+
+function evaluate(board: Cell[], me: Player): number {
+  let score = 0
+  for (const line of LINES) {
+    let mine = 0
+    let theirs = 0
+    for (const index of line) {
+      if (board[index] === me) mine++
+      else if (board[index] !== null) theirs++
+    }
+    if (mine > 0 && theirs === 0) score += 10 ** mine
+    else if (theirs > 0 && mine === 0) score -= 10 ** theirs
+  }
+  return score
+}
+
+function search(state: ConnectFourState, me: Player, depth: number, alpha: number, beta: number): number {
+  if (state.winner) return state.winner === me ? WIN_SCORE + depth : -WIN_SCORE - depth
+  if (state.gameOver) return 0
+  if (depth === 0) return evaluate(state.board, me)
+
+  const maximising = state.currentPlayer === me
+  let best = maximising ? -Infinity : Infinity
+
+  for (const column of validColumns(state.board)) {
+    const score = search(dropDisc(state, column), me, depth - 1, alpha, beta)
+    if (maximising) {
+      best = Math.max(best, score)
+      alpha = Math.max(alpha, score)
+    } else {
+      best = Math.min(best, score)
+      beta = Math.min(beta, score)
+    }
+    if (beta <= alpha) break
+  }
+
+  return best
+}
+
+export function findConnectFourMove(state: ConnectFourState): number | null {
+  const columns = validColumns(state.board)
+  if (state.gameOver || columns.length === 0) return null
+
+  // Search centre columns first; they're usually strongest and prune best
+  columns.sort((a, b) => Math.abs(a - 3) - Math.abs(b - 3))
+
+  let bestColumn = columns[0]
+  let bestScore = -Infinity
+  for (const column of columns) {
+    const score = search(dropDisc(state, column), state.currentPlayer, SEARCH_DEPTH - 1, bestScore, Infinity)
+    if (score > bestScore) {
+      bestScore = score
+      bestColumn = column
+    }
+  }
+
+  return bestColumn
+}
+
+export function describeConnectFour(state: ConnectFourState): string {
+  const rows = Array.from({ length: ROWS }, (_, row) =>
+    state.board.slice(row * COLUMNS, (row + 1) * COLUMNS).map(cell => cell ?? '.').join(' ')
+  )
+  const status = state.winner
+    ? `${state.winner === 'X' ? 'The player' : 'Albert'} has won.`
+    : state.gameOver
+      ? 'The game is a draw.'
+      : `${state.currentPlayer === 'X' ? 'The player (X)' : 'Albert (O)'} is to move.`
+
+  return `Connect Four position (columns 1-7, top row first):\n${rows.join('\n')}\n${status}`
+}
@@ -0,0 +1,66 @@
+import { checkWinner, createBoard, type BoardConfig, type Cell, type Player } from './tictactoe'
+
+export interface MoveRecord {
+  player: Player
+  index: number
+  at: number
+}
+
+export function boardFromMoves(config: BoardConfig, moves: MoveRecord[]): Cell[] {
+  const board = createBoard(config)
+  for (const move of moves) board[move.index] = move.player
+  return board
+}
+
+// Cells are named like a chessboard: columns a, b, c… from the left, rows 1, 2, 3… from the top
+export function cellName(index: number, { size }: BoardConfig): string {
+  return `${String.fromCharCode(97 + (index % size))}${Math.floor(index / size) + 1}`
+}
+
+export function cellIndex(name: string, { size }: BoardConfig): number | null {
+  const match = /^([a-z])(\d+)$/.exec(name)
+  if (!match) return null
+
+  const col = match[1].charCodeAt(0) - 97
+  const row = Number(match[2]) - 1
+  if (col >= size || row < 0 || row >= size) return null
+  return row * size + col
+}
+
+function resultToken(config: BoardConfig, moves: MoveRecord[]): string {
+  const board = boardFromMoves(config, moves)
+  const winner = checkWinner(board, config)
+  if (winner === 'X') return '1-0'
+  if (winner === 'O') return '0-1'
+  return board.every(cell => cell !== null) ? '1/2-1/2' : '*'
+}
+
+// Compact notation, e.g. "3x3/3 b2 a1 c3 c1 b1 b3 a3 a2 c2 1/2-1/2".
+// X always moves first, so the player of each move is implied by its position.
+export function toNotation(config: BoardConfig, moves: MoveRecord[]): string {
+  const header = `${config.size}x${config.size}/${config.winLength}`
+  return [header, ...moves.map(move => cellName(move.index, config)), resultToken(config, moves)].join(' ')
+}
+
+export function parseNotation(notation: string): { config: BoardConfig; moves: MoveRecord[] } | null {
+  const tokens = notation.trim().split(/\s+/)
+  const header = /^(\d+)x\1\/(\d+)$/.exec(tokens.shift() ?? '')
+  if (!header) return null
+
+  const config = { size: Number(header[1]), winLength: Number(header[2]) }
+  let player: Player = 'X'
+
+  const moves: MoveRecord[] = []
+  const seen = new Set<number>()
+  for (const token of tokens) {
+    if (['1-0', '0-1', '1/2-1/2', '*'].includes(token)) break
+    const index = cellIndex(token, config)
+    if (index === null || seen.has(index)) return null
+
+    seen.add(index)
+    moves.push({ player, index, at: 0 })
+    player = player === 'X' ? 'O' : 'X'
+  }
+
+  return { config, moves }
+}
@@ -0,0 +1,64 @@
+import type { ComponentType } from 'react'
+import { createId } from '../utils'
+import type { Message } from '../chat/types'
+
+export type GameResult = 'win' | 'lose' | 'draw'
+
+export interface GameRendererProps<S> {
+  state: S
+  onStateChange: (state: S) => void
+  onGameEnd: (result: GameResult) => void
+}
+
+// Everything the chat needs to host a game. Results are from the human
+// player's point of view.
+export interface GameDefinition<S = unknown, M = unknown> {
+  id: string
+  name: string
+  description: string
+  createInitialState(): S
+  isValidMove(state: S, move: M): boolean
+  applyMove(state: S, move: M): S
+  getAiMove(state: S): M | null
+  getResult(state: S): GameResult | null
+  // Plain-text summary of the position that is sent to Albert as message content
+  describe(state: S): string
+  serialize(state: S): string
+  deserialize(data: string): S
+  Renderer: ComponentType<GameRendererProps<S>>
+}
+
+export const DEFAULT_GAME_ID = 'tictactoe'
+
+const games = new Map<string, GameDefinition>()
+
+// Re-registering an id replaces the previous definition (e.g. on hot reload)
+export function registerGame<S, M>(definition: GameDefinition<S, M>) {
+  games.set(definition.id, definition as unknown as GameDefinition)
+}
+
+export function getGame(id: string | undefined): GameDefinition | undefined {
+  return games.get(id ?? DEFAULT_GAME_ID)
+}
+
+export function listGames(): GameDefinition[] {
+  return [...games.values()]
+}
+
+export function createGameMessage(gameId: string): Message {
+  const game = getGame(gameId)
+  if (!game) {
+    throw new Error(`Unknown game "${gameId}"`)
+  }
+
+  const state = game.createInitialState()
+  return {
+    id: createId(),
+    content: game.describe(state),
+    role: 'assistant',
+    timestamp: new Date(),
+    type: 'game',
+    gameId,
+    gameState: game.serialize(state)
+  }
+}
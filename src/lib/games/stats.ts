@@ -0,0 +1,125 @@
+import { format, startOfDay, startOfWeek } from 'date-fns'
+import type { GameResult } from './registry'
+
+export interface GameRecord {
+  id: string
+  gameId: string
+  result: GameResult
+  moveCount: number
+  opening?: string
+  variant?: string
+  endedAt: Date
+}
+
+export interface GameSummary {
+  played: number
+  wins: number
+  losses: number
+  draws: number
+  currentStreak: { result: GameResult; length: number } | null
+  longestWinStreak: number
+  averageLength: number
+  openings: { opening: string; played: number; wins: number }[]
+}
+
+export type StatsPeriod = 'day' | 'week'
+
+export interface StatsBucket {
+  label: string
+  start: Date
+  wins: number
+  losses: number
+  draws: number
+}
+
+// Records from before variants were tracked, and games without variants, share one group
+const DEFAULT_VARIANT = 'standard'
+const variantOf = (record: GameRecord) => record.variant ?? DEFAULT_VARIANT
+
+// Board variants that have been played, most recently played first, so stats
+// for different boards (3×3 vs Gomoku) are never mixed together
+export function listVariants(records: GameRecord[]): string[] {
+  const latest = new Map<string, number>()
+  for (const record of records) {
+    latest.set(variantOf(record), Math.max(latest.get(variantOf(record)) ?? 0, record.endedAt.getTime()))
+  }
+  return [...latest.entries()].sort((a, b) => b[1] - a[1]).map(([variant]) => variant)
+}
+
+export const recordsForVariant = (records: GameRecord[], variant: string) =>
+  records.filter(record => variantOf(record) === variant)
+
+// "5x5/4" -> "5×5, 4 in a row"
+export function variantLabel(variant: string): string {
+  const match = /^(\d+)x(\d+)\/(\d+)$/.exec(variant)
+  if (match) return `${match[1]}×${match[2]}, ${match[3]} in a row`
+  return variant === DEFAULT_VARIANT ? 'Standard' : variant
+}
+
+export function summarizeGames(records: GameRecord[]): GameSummary {
+  const ordered = [...records].sort((a, b) => a.endedAt.getTime() - b.endedAt.getTime())
+  const summary: GameSummary = {
+    played: ordered.length,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    currentStreak: null,
+    longestWinStreak: 0,
+    averageLength: 0,
+    openings: []
+  }
+
+  const openings = new Map<string, { opening: string; played: number; wins: number }>()
+  let winRun = 0
+  let totalMoves = 0
+
+  for (const record of ordered) {
+    if (record.result === 'win') summary.wins++
+    else if (record.result === 'lose') summary.losses++
+    else summary.draws++
+
+    winRun = record.result === 'win' ? winRun + 1 : 0
+    summary.longestWinStreak = Math.max(summary.longestWinStreak, winRun)
+
+    summary.currentStreak = summary.currentStreak?.result === record.result
+      ? { result: record.result, length: summary.currentStreak.length + 1 }
+      : { result: record.result, length: 1 }
+
+    totalMoves += record.moveCount
+
+    if (record.opening) {
+      const entry = openings.get(record.opening) ?? { opening: record.opening, played: 0, wins: 0 }
+      entry.played++
+      if (record.result === 'win') entry.wins++
+      openings.set(record.opening, entry)
+    }
+  }
+
+  summary.averageLength = ordered.length > 0 ? totalMoves / ordered.length : 0
+  summary.openings = [...openings.values()].sort((a, b) => b.played - a.played)
+  return summary
+}
+
+export function bucketGames(records: GameRecord[], period: StatsPeriod): StatsBucket[] {
+  const buckets = new Map<number, StatsBucket>()
+  const startOf = period === 'day' ? startOfDay : (date: Date) => startOfWeek(date, { weekStartsOn: 1 })
+
+  for (const record of records) {
+    const start = startOf(record.endedAt)
+    const bucket = buckets.get(start.getTime()) ?? {
+      label: format(start, period === 'day' ? 'MMM d' : "'Wk of' MMM d"),
+      start,
+      wins: 0,
+      losses: 0,
+      draws: 0
+    }
+
+    if (record.result === 'win') bucket.wins++
+    else if (record.result === 'lose') bucket.losses++
+    else bucket.draws++
+
+    buckets.set(start.getTime(), bucket)
+  }
+
+  return [...buckets.values()].sort((a, b) => a.start.getTime() - b.start.getTime())
+}
@@ -0,0 +1,336 @@
+import type { MoveRecord } from './move-history'
+
+export type Player = 'X' | 'O'
+export type Cell = Player | null
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'perfect'
+export type GameMode = 'vs-albert' | 'hot-seat' | 'demo'
+
+export interface BoardConfig {
+  size: number
+  winLength: number
+}
+
+export interface GameState {
+  board: (string | null)[]
+  size: number
+  winLength: number
+  moves: MoveRecord[]
+  mode: GameMode
+  // The mark whose wins count as `score.player`; Albert plays the other one
+  humanPlayer: Player
+  currentPlayer: 'X' | 'O'
+  winner: string | null
+  gameOver: boolean
+  score: { player: number; albert: number; draws: number }
+}
+
+export const CLASSIC_BOARD: BoardConfig = { size: 3, winLength: 3 }
+
+export const BOARD_PRESETS: { id: string; label: string; config: BoardConfig }[] = [
+  { id: 'classic', label: '3×3', config: CLASSIC_BOARD },
+  { id: 'four', label: '4×4', config: { size: 4, winLength: 4 } },
+  { id: 'five', label: '5×5 (4 in a row)', config: { size: 5, winLength: 4 } },
+  { id: 'gomoku', label: 'Gomoku 15×15', config: { size: 15, winLength: 5 } }
+]
+
+export const GAME_MODES: { id: string; label: string; mode: GameMode; humanPlayer: Player }[] = [
+  { id: 'albert-x', label: 'vs Albert (you are X)', mode: 'vs-albert', humanPlayer: 'X' },
+  { id: 'albert-o', label: 'vs Albert (you are O)', mode: 'vs-albert', humanPlayer: 'O' },
+  { id: 'hot-seat', label: 'Two players', mode: 'hot-seat', humanPlayer: 'X' },
+  { id: 'demo', label: 'Albert vs Albert', mode: 'demo', humanPlayer: 'X' }
+]
+
+export const DIFFICULTIES: { value: Difficulty; label: string; randomness: number }[] = [
+  { value: 'easy', label: 'Easy', randomness: 0.7 },
+  { value: 'medium', label: 'Medium', randomness: 0.4 },
+  { value: 'hard', label: 'Hard', randomness: 0.1 },
+  { value: 'perfect', label: 'Perfect', randomness: 0 }
+]
+
+const DIRECTIONS = [
+  [0, 1], // row
+  [1, 0], // column
+  [1, 1], // diagonal
+  [1, -1] // anti-diagonal
+]
+
+const WIN_SCORE = 1_000_000_000
+
+export function createBoard({ size }: BoardConfig): Cell[] {
+  return Array(size * size).fill(null)
+}
+
+// Every run of `winLength` cells that could form a winning line
+const lineCache = new Map<string, number[][]>()
+
+export function winningLines({ size, winLength }: BoardConfig): number[][] {
+  const key = `${size}:${winLength}`
+  const cached = lineCache.get(key)
+  if (cached) return cached
+
+  const lines: number[][] = []
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      for (const [dRow, dCol] of DIRECTIONS) {
+        const endRow = row + dRow * (winLength - 1)
+        const endCol = col + dCol * (winLength - 1)
+        if (endRow >= size || endCol < 0 || endCol >= size) continue
+        lines.push(Array.from({ length: winLength }, (_, i) => (row + dRow * i) * size + col + dCol * i))
+      }
+    }
+  }
+
+  lineCache.set(key, lines)
+  return lines
+}
+
+export function findWinningLine(board: (string | null)[], config: BoardConfig = CLASSIC_BOARD): number[] | null {
+  for (const line of winningLines(config)) {
+    const first = board[line[0]]
+    if (first && line.every(index => board[index] === first)) return line
+  }
+  return null
+}
+
+export function checkWinner(board: (string | null)[], config: BoardConfig = CLASSIC_BOARD): string | null {
+  const line = findWinningLine(board, config)
+  return line ? board[line[0]] : null
+}
+
+export function emptyCells(board: (string | null)[]): number[] {
+  return board.flatMap((cell, index) => cell === null ? [index] : [])
+}
+
+export function isLegalMove(board: (string | null)[], index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < board.length && board[index] === null
+}
+
+const opponent = (player: Player): Player => player === 'X' ? 'O' : 'X'
+
+// On large boards only cells near existing marks are worth considering
+function candidateMoves(board: (string | null)[], { size }: BoardConfig): number[] {
+  const empty = emptyCells(board)
+  if (size <= 4 || empty.length === board.length) {
+    return empty.length === board.length && size > 3 ? [Math.floor(size / 2) * size + Math.floor(size / 2)] : empty
+  }
+
+  return empty.filter(index => {
+    const row = Math.floor(index / size)
+    const col = index % size
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        const r = row + dRow
+        const c = col + dCol
+        if (r >= 0 && r < size && c >= 0 && c < size && board[r * size + c] !== null) return true
+      }
+    }
+    return false
+  })
+}
+
+// Sums open lines for each side; longer unblocked runs weigh exponentially more
+function evaluate(board: (string | null)[], me: Player, config: BoardConfig): number {
+  let score = 0
+  for (const line of winningLines(config)) {
+    let mine = 0
+    let theirs = 0
+    for (const index of line) {
+      if (board[index] === me) mine++
+      else if (board[index] !== null) theirs++
+    }
+    if (mine > 0 && theirs === 0) score += 10 ** mine
+    else if (theirs > 0 && mine === 0) score -= 10 ** theirs
+  }
+  return score
+}
+
+function searchDepth({ size }: BoardConfig): number {
+  if (size <= 3) return Infinity
+  if (size <= 4) return 4
+  if (size <= 5) return 3
+  return 2
+}
+
+// Scores are from `me`'s point of view; quicker wins and slower losses score higher
+function alphaBeta(
+  board: (string | null)[],
+  turn: Player,
+  me: Player,
+  config: BoardConfig,
+  depth: number,
+  maxDepth: number,
+  alpha: number,
+  beta: number
+): number {
+  const winner = checkWinner(board, config)
+  if (winner) return winner === me ? WIN_SCORE - depth : depth - WIN_SCORE
+
+  const moves = candidateMoves(board, config)
+  if (moves.length === 0) return 0
+  if (depth >= maxDepth) return evaluate(board, me, config)
+
+  const maximising = turn === me
+  let best = maximising ? -Infinity : Infinity
+
+  for (const move of moves) {
+    board[move] = turn
+    const score = alphaBeta(board, opponent(turn), me, config, depth + 1, maxDepth, alpha, beta)
+    board[move] = null
+
+    if (maximising) {
+      best = Math.max(best, score)
+      alpha = Math.max(alpha, score)
+    } else {
+      best = Math.min(best, score)
+      beta = Math.min(beta, score)
+    }
+    if (beta <= alpha) break
+  }
+
+  return best
+}
+
+function immediateWin(board: (string | null)[], player: Player, moves: number[], config: BoardConfig): number | null {
+  const scratch = [...board]
+  for (const move of moves) {
+    scratch[move] = player
+    const won = checkWinner(scratch, config) === player
+    scratch[move] = null
+    if (won) return move
+  }
+  return null
+}
+
+export function findBestMove(
+  board: (string | null)[],
+  player: Player,
+  config: BoardConfig = CLASSIC_BOARD
+): number | null {
+  const moves = candidateMoves(board, config)
+  if (moves.length === 0) return null
+
+  // Take a win, or block one, before searching
+  const forced = immediateWin(board, player, moves, config) ?? immediateWin(board, opponent(player), moves, config)
+  if (forced !== null) return forced
+
+  const scratch = [...board]
+  const maxDepth = searchDepth(config)
+  let bestMove = moves[0]
+  let bestScore = -Infinity
+
+  for (const move of moves) {
+    scratch[move] = player
+    const score = alphaBeta(scratch, opponent(player), player, config, 1, maxDepth, bestScore, Infinity)
+    scratch[move] = null
+
+    if (score > bestScore) {
+      bestScore = score
+      bestMove = move
+    }
+  }
+
+  return bestMove
+}
+
+// Blends random moves with optimal ones according to the difficulty level
+export function chooseMove(
+  board: (string | null)[],
+  player: Player,
+  difficulty: Difficulty,
+  config: BoardConfig = CLASSIC_BOARD,
+  random: () => number = Math.random
+): number | null {
+  const moves = candidateMoves(board, config)
+  if (moves.length === 0) return null
+
+  const { randomness } = DIFFICULTIES.find(level => level.value === difficulty) ?? DIFFICULTIES[3]
+  if (random() < randomness) {
+    return moves[Math.floor(random() * moves.length)]
+  }
+
+  return findBestMove(board, player, config)
+}
+
+interface GameSetup {
+  score?: GameState['score']
+  mode?: GameMode
+  humanPlayer?: Player
+}
+
+export function createGameState(
+  config: BoardConfig = CLASSIC_BOARD,
+  { score = { player: 0, albert: 0, draws: 0 }, mode = 'vs-albert', humanPlayer = 'X' }: GameSetup = {}
+): GameState {
+  return {
+    board: createBoard(config),
+    size: config.size,
+    winLength: config.winLength,
+    moves: [],
+    mode,
+    humanPlayer,
+    currentPlayer: 'X',
+    winner: null,
+    gameOver: false,
+    score
+  }
+}
+
+// Places the current player's mark and settles the result and score. Illegal
+// moves return the state unchanged.
+export function playMove(state: GameState, index: number): GameState {
+  if (state.gameOver || !isLegalMove(state.board, index)) return state
+
+  const board = [...state.board]
+  board[index] = state.currentPlayer
+
+  const winner = checkWinner(board, state)
+  const gameOver = winner !== null || board.every(cell => cell !== null)
+
+  const score = { ...state.score }
+  if (gameOver) {
+    if (!winner) score.draws += 1
+    else if (winner === state.humanPlayer) score.player += 1
+    else score.albert += 1
+  }
+
+  return {
+    ...state,
+    board,
+    moves: [...state.moves, { player: state.currentPlayer, index, at: Date.now() }],
+    currentPlayer: state.currentPlayer === 'X' ? 'O' : 'X',
+    winner,
+    gameOver,
+    score
+  }
+}
+
+// Whose turn it is for Albert to play, depending on the mode
+export function isAlbertTurn(state: GameState): boolean {
+  if (state.gameOver) return false
+  if (state.mode === 'demo') return true
+  return state.mode === 'vs-albert' && state.currentPlayer !== state.humanPlayer
+}
+
+export function playerLabel(state: GameState, player: Player): string {
+  switch (state.mode) {
+    case 'hot-seat':
+      return `Player ${player}`
+    case 'demo':
+      return `Albert ${player}`
+    default:
+      return player === state.humanPlayer ? 'You' : 'Albert'
+  }
+}
+
+export function describeGameState(state: GameState): string {
+  const rows = Array.from({ length: state.size }, (_, row) =>
+    state.board.slice(row * state.size, (row + 1) * state.size).map(cell => cell ?? '.').join(' ')
+  )
+  const status = state.winner
+    ? `${playerLabel(state, state.winner as Player)} won.`
+    : state.gameOver
+      ? 'The game is a draw.'
+      : `${playerLabel(state, state.currentPlayer)} (${state.currentPlayer}) to move.`
+
+  return `Tic Tac Toe ${state.size}×${state.size}, ${state.winLength} in a row wins:\n${rows.join('\n')}\n${status}`
+}
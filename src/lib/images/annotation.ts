@@ -0,0 +1,164 @@
+import { fitWithin, MAX_IMAGE_DIMENSION } from './downscale'
+
+// Coordinates are fractions of the image's width and height, so annotations
+// stay put however large the editor canvas is drawn
+export type Point = [x: number, y: number]
+
+export type Annotation =
+  // `size` is the brush diameter as a fraction of the image width
+  | { kind: 'mask'; points: Point[]; size: number }
+  | { kind: 'arrow'; from: Point; to: Point }
+  | { kind: 'text'; at: Point; text: string }
+
+export type AnnotationTool = Annotation['kind']
+
+export const BRUSH_SIZES = { min: 0.01, max: 0.12, initial: 0.04 }
+
+const MARK_COLOR = '#ef4444'
+const MASK_OPACITY = 0.45
+
+export class AnnotationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnnotationError'
+  }
+}
+
+export const hasMask = (annotations: Annotation[]) => annotations.some(annotation => annotation.kind === 'mask')
+
+// Loads through a blob URL so the canvas stays untainted and can be exported,
+// which a cross-origin <img> wouldn't allow
+export async function loadEditableImage(url: string): Promise<{ image: HTMLImageElement; release: () => void }> {
+  let objectUrl: string
+  try {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    objectUrl = URL.createObjectURL(await response.blob())
+  } catch (error) {
+    console.error('Could not fetch image for editing:', error)
+    throw new AnnotationError("This image can't be opened for editing.")
+  }
+
+  const image = new Image()
+  image.src = objectUrl
+  try {
+    await image.decode()
+  } catch {
+    URL.revokeObjectURL(objectUrl)
+    throw new AnnotationError("This image can't be opened for editing.")
+  }
+  return { image, release: () => URL.revokeObjectURL(objectUrl) }
+}
+
+function strokeMask(context: CanvasRenderingContext2D, annotation: Extract<Annotation, { kind: 'mask' }>, width: number, height: number) {
+  context.lineCap = 'round'
+  context.lineJoin = 'round'
+  context.lineWidth = annotation.size * width
+  context.beginPath()
+  annotation.points.forEach(([x, y], index) => {
+    if (index === 0) context.moveTo(x * width, y * height)
+    else context.lineTo(x * width, y * height)
+  })
+  // A single tap still leaves a dot
+  if (annotation.points.length === 1) context.lineTo(annotation.points[0][0] * width + 0.1, annotation.points[0][1] * height)
+  context.stroke()
+}
+
+function drawArrow(context: CanvasRenderingContext2D, from: Point, to: Point, width: number, height: number) {
+  const [x1, y1] = [from[0] * width, from[1] * height]
+  const [x2, y2] = [to[0] * width, to[1] * height]
+  const angle = Math.atan2(y2 - y1, x2 - x1)
+  const head = Math.max(10, width * 0.03)
+
+  context.lineWidth = Math.max(3, width * 0.006)
+  context.lineCap = 'round'
+  context.beginPath()
+  context.moveTo(x1, y1)
+  context.lineTo(x2, y2)
+  context.stroke()
+
+  context.beginPath()
+  context.moveTo(x2, y2)
+  context.lineTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6))
+  context.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6))
+  context.closePath()
+  context.fill()
+}
+
+function drawLabel(context: CanvasRenderingContext2D, at: Point, text: string, width: number, height: number) {
+  const fontSize = Math.max(14, width * 0.035)
+  context.font = `bold ${fontSize}px sans-serif`
+  context.textBaseline = 'middle'
+  context.lineJoin = 'round'
+  context.lineWidth = fontSize / 5
+  context.strokeStyle = '#ffffff'
+  context.strokeText(text, at[0] * width, at[1] * height)
+  context.fillStyle = MARK_COLOR
+  context.fillText(text, at[0] * width, at[1] * height)
+}
+
+// Draws the annotations over whatever is already on the canvas. Mask strokes
+// go onto their own layer first so overlapping strokes don't darken.
+export function drawAnnotations(context: CanvasRenderingContext2D, annotations: Annotation[], width: number, height: number) {
+  const masks = annotations.filter(annotation => annotation.kind === 'mask')
+  if (masks.length > 0) {
+    const layer = document.createElement('canvas')
+    layer.width = width
+    layer.height = height
+    const layerContext = layer.getContext('2d')
+    if (layerContext) {
+      layerContext.strokeStyle = MARK_COLOR
+      masks.forEach(mask => strokeMask(layerContext, mask, width, height))
+      context.save()
+      context.globalAlpha = MASK_OPACITY
+      context.drawImage(layer, 0, 0)
+      context.restore()
+    }
+  }
+
+  context.save()
+  context.strokeStyle = MARK_COLOR
+  context.fillStyle = MARK_COLOR
+  for (const annotation of annotations) {
+    if (annotation.kind === 'arrow') drawArrow(context, annotation.from, annotation.to, width, height)
+    if (annotation.kind === 'text') drawLabel(context, annotation.at, annotation.text, width, height)
+  }
+  context.restore()
+}
+
+function exportCanvas(
+  image: HTMLImageElement,
+  paint: (context: CanvasRenderingContext2D, width: number, height: number) => void
+): Promise<Blob> {
+  const { width, height } = fitWithin(image.naturalWidth, image.naturalHeight, MAX_IMAGE_DIMENSION)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) return Promise.reject(new AnnotationError('Canvas 2D context is unavailable'))
+  paint(context, width, height)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new AnnotationError('Could not export the image')), 'image/jpeg', 0.9)
+  })
+}
+
+// The picture with the marks burnt in, for the model to look at
+export function renderAnnotatedImage(image: HTMLImageElement, annotations: Annotation[]): Promise<Blob> {
+  return exportCanvas(image, (context, width, height) => {
+    context.drawImage(image, 0, 0, width, height)
+    drawAnnotations(context, annotations, width, height)
+  })
+}
+
+// Black everywhere except the painted region, which is white
+export function renderMask(image: HTMLImageElement, annotations: Annotation[]): Promise<Blob> {
+  return exportCanvas(image, (context, width, height) => {
+    context.fillStyle = '#000000'
+    context.fillRect(0, 0, width, height)
+    context.strokeStyle = '#ffffff'
+    for (const annotation of annotations) {
+      if (annotation.kind === 'mask') strokeMask(context, annotation, width, height)
+    }
+  })
+}
@@ -0,0 +1,51 @@
+// Longest side of images sent to the model; larger photos only cost upload time
+export const MAX_IMAGE_DIMENSION = 1600
+const JPEG_QUALITY = 0.85
+
+export function fitWithin(width: number, height: number, maxDimension = MAX_IMAGE_DIMENSION) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+// Redraws the image onto a canvas and re-encodes it as JPEG. Only pixels
+// survive the round trip, so EXIF data (GPS position, camera serial, …) is
+// dropped along the way.
+export function encodeImage(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  maxDimension = MAX_IMAGE_DIMENSION
+): Promise<Blob> {
+  const { width, height } = fitWithin(sourceWidth, sourceHeight, maxDimension)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d')
+  if (!context) return Promise.reject(new Error('Canvas 2D context is unavailable'))
+  // JPEG has no alpha; paint transparent PNGs onto white rather than black
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(source, 0, 0, width, height)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode image')), 'image/jpeg', JPEG_QUALITY)
+  })
+}
+
+// The browser applies the EXIF orientation while decoding, so the stripped
+// copy still comes out the right way up
+export async function downscaleImage(file: Blob, maxDimension = MAX_IMAGE_DIMENSION): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    return await encodeImage(bitmap, bitmap.width, bitmap.height, maxDimension)
+  } finally {
+    bitmap.close()
+  }
+}
+
+export function snapshotVideo(video: HTMLVideoElement, maxDimension = MAX_IMAGE_DIMENSION): Promise<Blob> {
+  return encodeImage(video, video.videoWidth, video.videoHeight, maxDimension)
+}
+
+export const jpegName = (name: string) => `${name.replace(/\.[^.]+$/, '') || 'image'}.jpg`
@@ -0,0 +1,51 @@
+import type { Conversation, ImageSettings } from '../chat/types'
+
+export interface GalleryImage {
+  // The message the image came from
+  id: string
+  url: string
+  prompt: string
+  settings?: ImageSettings
+  conversationId: string
+  conversationTitle: string
+  createdAt: Date
+}
+
+// Every generated image across all conversations, including ones on inactive
+// branches, newest first
+export function collectGalleryImages(conversations: Conversation[]): GalleryImage[] {
+  return conversations
+    .flatMap(conversation => [...conversation.messages, ...(conversation.branches ?? [])]
+      .filter(message => message.type === 'image' && message.mediaUrl)
+      .map(message => ({
+        id: message.id,
+        url: message.mediaUrl as string,
+        prompt: message.imageSettings?.prompt ?? message.content,
+        settings: message.imageSettings,
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        createdAt: new Date(message.timestamp)
+      })))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+const extensionFor = (type: string) => type.split('/')[1]?.replace('svg+xml', 'svg') || 'png'
+
+export async function downloadImage(url: string, baseName: string) {
+  try {
+    const blob = await (await fetch(url)).blob()
+    const objectUrl = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = objectUrl
+    link.download = `${baseName}.${extensionFor(blob.type)}`
+    link.click()
+    // Revoking straight away can cancel a download that hasn't started yet
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+  } catch {
+    // Cross-origin images can't always be fetched; let the browser handle it
+    window.open(url, '_blank', 'noopener')
+  }
+}
+
+export const imageFileName = (prompt: string) =>
+  prompt.toLowerCase().replace(/[^\w ]+/g, '').trim().split(/\s+/).slice(0, 6).join('-') || 'albert-image'
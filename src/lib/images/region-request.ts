@@ -0,0 +1,80 @@
+import { createId } from '../utils'
+import { createImageAttachment, uploadDataUrl } from '../chat/attachments'
+import { aspectPreset } from './studio'
+import { hasMask, renderAnnotatedImage, renderMask, type Annotation } from './annotation'
+import type { ChatProvider } from '../providers/types'
+import type { Attachment, Message } from '../chat/types'
+
+// 'explain' asks Albert about the marked area in chat; 'edit' asks the image
+// model to repaint it
+export type AnnotationIntent = 'explain' | 'edit'
+
+export const DEFAULT_INSTRUCTIONS: Record<AnnotationIntent, string> = {
+  explain: 'Explain what I marked on this picture.',
+  edit: 'Change the marked area.'
+}
+
+// The marked-up copy always goes along; the mask only when something was painted
+export async function createAnnotationAttachments(image: HTMLImageElement, annotations: Annotation[]): Promise<Attachment[]> {
+  const annotated = await createImageAttachment(await renderAnnotatedImage(image, annotations), 'annotated')
+  if (!hasMask(annotations)) return [annotated]
+  return [annotated, await createImageAttachment(await renderMask(image, annotations), 'mask')]
+}
+
+export function explainPrompt(instruction: string, withMask: boolean): string {
+  const note = withMask
+    ? 'The red shading, arrows and labels in the picture are mine and point at what I mean; the black-and-white image is a mask of the shaded area.'
+    : 'The red arrows and labels in the picture are mine and point at what I mean.'
+  return `${instruction.trim() || DEFAULT_INSTRUCTIONS.explain}\n\n(${note})`
+}
+
+function editPrompt(instruction: string, withMask: boolean): string {
+  const region = withMask
+    ? 'Only change the area that is white in the mask (the third image) and shaded red in the second image'
+    : 'Only change the area the red arrows and labels in the second image point at'
+  // The sentence is closed below, so drop the user's own full stop
+  const request = instruction.trim().replace(/[.!?]+$/, '') || DEFAULT_INSTRUCTIONS.edit.replace(/\.$/, '')
+  return `Edit the first image: ${request}. ${region}; keep everything else exactly as it is. Do not draw any of the red marks.`
+}
+
+// `attachments` must already be uploaded (see uploadAttachments)
+export async function requestRegionEdit(
+  provider: ChatProvider,
+  source: Message,
+  instruction: string,
+  attachments: Attachment[],
+  signal?: AbortSignal
+): Promise<string> {
+  if (!source.mediaUrl) throw new Error('The source message has no image')
+  const sourceUrl = await uploadDataUrl(source.mediaUrl, `edits/${source.id}-source.png`, provider)
+  const withMask = attachments.length > 1
+
+  const { urls } = await provider.editImage({
+    prompt: editPrompt(instruction, withMask),
+    images: [sourceUrl, ...attachments.flatMap(attachment => attachment.url ? [attachment.url] : [])],
+    size: source.imageSettings ? aspectPreset(source.imageSettings.aspect).size : undefined,
+    n: 1,
+    signal
+  })
+  if (!urls[0]) throw new Error('No edited image came back')
+  return urls[0]
+}
+
+// The user's request (with the marked-up image) and the edited result, which
+// links back to the image it was made from
+export function createRegionEditMessages(source: Message, instruction: string, attachments: Attachment[], url: string): Message[] {
+  const content = instruction.trim() || DEFAULT_INSTRUCTIONS.edit
+  const now = Date.now()
+  return [
+    { id: createId(), content, role: 'user', timestamp: new Date(now), attachments },
+    {
+      id: createId(),
+      content,
+      role: 'assistant',
+      timestamp: new Date(now + 1),
+      type: 'image',
+      mediaUrl: url,
+      sourceImageId: source.id
+    }
+  ]
+}
@@ -0,0 +1,84 @@
+import { createId } from '../utils'
+import type { ChatProvider } from '../providers/types'
+import type { ImageSettings, Message } from '../chat/types'
+
+export interface AspectPreset {
+  id: string
+  label: string
+  // Width / height, for AspectRatio previews
+  ratio: number
+  size: string
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: 'square', label: 'Square', ratio: 1, size: '1024x1024' },
+  { id: 'portrait', label: 'Portrait', ratio: 2 / 3, size: '1024x1536' },
+  { id: 'landscape', label: 'Landscape', ratio: 3 / 2, size: '1536x1024' }
+]
+
+export interface StylePreset {
+  id: string
+  label: string
+  // Appended to the prompt
+  suffix: string
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'none', label: 'No style', suffix: '' },
+  { id: 'photo', label: 'Photo', suffix: 'photorealistic, natural lighting, sharp focus' },
+  { id: 'watercolor', label: 'Watercolour', suffix: 'soft watercolour painting, paper texture' },
+  { id: 'cartoon', label: 'Cartoon', suffix: 'bright friendly cartoon illustration, clean outlines' },
+  { id: 'pixel', label: 'Pixel art', suffix: '16-bit pixel art' },
+  { id: '3d', label: '3D render', suffix: 'colourful 3D render, soft shadows' },
+  { id: 'sketch', label: 'Pencil sketch', suffix: 'detailed pencil sketch on white paper' }
+]
+
+export const MAX_VARIANTS = 4
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  prompt: '',
+  aspect: 'square',
+  style: 'none',
+  negativePrompt: '',
+  seed: 0,
+  variants: 1
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000)
+
+export const aspectPreset = (id: string) => ASPECT_PRESETS.find(preset => preset.id === id) ?? ASPECT_PRESETS[0]
+export const stylePreset = (id: string) => STYLE_PRESETS.find(preset => preset.id === id) ?? STYLE_PRESETS[0]
+
+export function buildImagePrompt(settings: ImageSettings): string {
+  const { suffix } = stylePreset(settings.style)
+  return suffix ? `${settings.prompt.trim()}, ${suffix}` : settings.prompt.trim()
+}
+
+export async function generateStudioImages(
+  provider: ChatProvider,
+  settings: ImageSettings,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const { urls } = await provider.generateImage({
+    prompt: buildImagePrompt(settings),
+    size: aspectPreset(settings.aspect).size,
+    n: Math.min(Math.max(1, settings.variants), MAX_VARIANTS),
+    negativePrompt: settings.negativePrompt.trim() || undefined,
+    seed: settings.seed,
+    signal
+  })
+  return urls
+}
+
+// The settings travel with the message so the gallery can offer "reuse prompt"
+export function createImageMessage(url: string, settings: ImageSettings): Message {
+  return {
+    id: createId(),
+    content: settings.prompt.trim(),
+    role: 'assistant',
+    timestamp: new Date(),
+    type: 'image',
+    mediaUrl: url,
+    imageSettings: settings
+  }
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import type { ChatTurn } from '../providers/types'
+
+export const PERSONA_TOOLS = ['image', 'video', 'game'] as const
+export type PersonaTool = typeof PERSONA_TOOLS[number]
+
+export const personaSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Give the persona a name').max(40, 'Keep the name under 40 characters'),
+  // An emoji or short text for AvatarFallback, or an image URL for AvatarImage
+  avatar: z.string().trim().min(1, 'Pick an avatar').max(2048),
+  systemPrompt: z.string().trim().min(10, 'The system prompt needs a bit more detail').max(4000),
+  temperature: z.number().min(0).max(2),
+  tools: z.array(z.enum(PERSONA_TOOLS)),
+  builtIn: z.boolean().optional()
+})
+
+export type Persona = z.infer<typeof personaSchema>
+
+export const DEFAULT_PERSONA_ID = 'albert'
+
+const ALL_TOOLS: PersonaTool[] = [...PERSONA_TOOLS]
+
+export const BUILTIN_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Albert',
+    avatar: '🧠',
+    systemPrompt: 'You are Albert, a friendly and curious AI assistant. Give clear, helpful answers and keep a light, warm tone.',
+    temperature: 0.7,
+    tools: ALL_TOOLS,
+    builtIn: true
+  },
+  {
+    id: 'tutor',
+    name: 'Tutor',
+    avatar: '🎓',
+    systemPrompt: 'You are Albert acting as a patient tutor. Explain ideas step by step, check understanding with short questions, and prefer hints over handing out answers.',
+    temperature: 0.4,
+    tools: ['image'],
+    builtIn: true
+  },
+  {
+    id: 'storyteller',
+    name: 'Storyteller',
+    avatar: '📖',
+    systemPrompt: 'You are Albert the storyteller. Write vivid, imaginative stories with memorable characters, and invite the user to shape what happens next.',
+    temperature: 1.1,
+    tools: ['image', 'video'],
+    builtIn: true
+  },
+  {
+    id: 'game-buddy',
+    name: 'Game Buddy',
+    avatar: '🎮',
+    systemPrompt: 'You are Albert the game buddy. Be playful and encouraging, suggest games to play, and talk through moves and strategy in a friendly way.',
+    temperature: 0.9,
+    tools: ['game', 'image'],
+    builtIn: true
+  },
+  {
+    id: 'coder',
+    name: 'Coder',
+    avatar: '💻',
+    systemPrompt: 'You are Albert the programming assistant. Answer precisely, show working code in fenced blocks with the language named, and explain trade-offs briefly.',
+    temperature: 0.2,
+    tools: [],
+    builtIn: true
+  }
+]
+
+export function findPersona(personas: Persona[], id: string | undefined): Persona {
+  return personas.find(persona => persona.id === id)
+    ?? personas.find(persona => persona.id === DEFAULT_PERSONA_ID)
+    ?? BUILTIN_PERSONAS[0]
+}
+
+export function personaAllows(persona: Persona, tool: PersonaTool): boolean {
+  return persona.tools.includes(tool)
+}
+
+export function withPersona(turns: ChatTurn[], persona: Persona): ChatTurn[] {
+  return [{ role: 'system', content: persona.systemPrompt }, ...turns]
+}
+
+export const isImageAvatar = (avatar: string) => /^(https?:|data:image\/)/.test(avatar)
@@ -0,0 +1,85 @@
+import { blink } from '../../blink/client'
+import type { ChatProvider, ChatTurn } from './types'
+
+const MODERATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    flagged: { type: 'boolean' },
+    categories: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['flagged', 'categories']
+}
+
+// Blink takes images as content parts next to the text
+const toBlinkMessages = (messages: ChatTurn[]) => messages.map(({ role, content, images }) => ({
+  role,
+  content: images?.length
+    ? [{ type: 'text' as const, text: content }, ...images.map(image => ({ type: 'image' as const, image }))]
+    : content
+}))
+
+const toImageUrls = (data: Array<{ url?: string; b64_json?: string }>) => data
+  .map(image => image.url ?? (image.b64_json ? `data:image/png;base64,${image.b64_json}` : undefined))
+  .filter((url): url is string => !!url)
+
+export function createBlinkProvider(): ChatProvider {
+  return {
+    name: 'blink',
+
+    async generateText({ messages, temperature, maxTokens, signal }) {
+      const response = await blink.ai.generateText({ messages: toBlinkMessages(messages), temperature, maxTokens, signal })
+      return { text: response.text, finishReason: response.finishReason }
+    },
+
+    async streamText({ messages, temperature, maxTokens, signal }, onChunk) {
+      const response = await blink.ai.streamText({ messages: toBlinkMessages(messages), temperature, maxTokens, signal }, onChunk)
+      return { text: response.text, finishReason: response.finishReason }
+    },
+
+    // Blink has no negative prompt or seed parameters; the negative prompt is
+    // folded into the text and the seed is ignored
+    async generateImage({ prompt, size, n, negativePrompt, signal }) {
+      const fullPrompt = negativePrompt ? `${prompt}\n\nAvoid: ${negativePrompt}` : prompt
+      const { data } = await blink.ai.generateImage({ prompt: fullPrompt, size, n, signal })
+      return { urls: toImageUrls(data) }
+    },
+
+    async editImage({ prompt, images, size, n, signal }) {
+      const { data } = await blink.ai.modifyImage({ images, prompt, size, n, signal })
+      return { urls: toImageUrls(data) }
+    },
+
+    async moderate(text) {
+      const { object } = await blink.ai.generateObject({
+        prompt: `Decide whether this message is unsafe for a children's learning app. List any violated categories.\n\n${text}`,
+        schema: MODERATION_SCHEMA
+      })
+      return {
+        flagged: Boolean(object?.flagged),
+        categories: Array.isArray(object?.categories) ? object.categories : []
+      }
+    },
+
+    // The Blink SDK has no video endpoint yet; fail the job up front so the
+    // queue shows a clear error instead of polling forever
+    async startVideo() {
+      throw new Error('Video generation is not available with this provider yet.')
+    },
+
+    async getVideoJob(jobId) {
+      return { jobId, status: 'failed', progress: 0, error: 'Video generation is not available with this provider yet.' }
+    },
+
+    async cancelVideo() {},
+
+    async transcribeAudio({ audio, language, signal }) {
+      const { text } = await blink.ai.transcribeAudio({ audio: await audio.arrayBuffer(), language, signal })
+      return text.trim()
+    },
+
+    async uploadFile(file, path) {
+      const { publicUrl } = await blink.storage.upload(file, path, { upsert: true })
+      return publicUrl
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { createBlinkProvider } from './blink-provider'
+import { createMockProvider } from './mock-provider'
+import type { ChatProvider } from './types'
+
+export type {
+  ChatProvider,
+  ChatTurn,
+  ImageEditRequest,
+  ImageRequest,
+  ImageResult,
+  ModerationResult,
+  TextRequest,
+  TextResult,
+  VideoJobStatus,
+  VideoJobUpdate,
+  VideoRequest
+} from './types'
+export { createBlinkProvider } from './blink-provider'
+export { createMockProvider, type MockRule } from './mock-provider'
+
+function selectProvider(): ChatProvider {
+  switch (import.meta.env.VITE_CHAT_PROVIDER) {
+    case 'mock':
+      return createMockProvider()
+    default:
+      return createBlinkProvider()
+  }
+}
+
+export const provider = selectProvider()
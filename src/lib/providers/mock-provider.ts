@@ -0,0 +1,274 @@
+import { readDataUrl } from '../chat/attachments'
+import type { ChatProvider, ChatTurn, VideoJobUpdate } from './types'
+
+export interface MockRule {
+  match: RegExp
+  reply: string | ((prompt: string, messages: ChatTurn[]) => string)
+}
+
+interface MockProviderOptions {
+  script?: MockRule[]
+  chunkSize?: number
+  delayMs?: number
+  blockedWords?: string[]
+  // How long a simulated video job waits in the queue, then renders
+  videoQueueMs?: number
+  videoRenderMs?: number
+}
+
+interface ReplayOptions {
+  signal?: AbortSignal
+  chunkSize: number
+  delayMs: number
+  onChunk: (chunk: string) => void
+}
+
+// Answers storyboard planning requests (see lib/stories/storyboard.ts) with
+// one scene per sentence of the idea
+function mockStoryboard(prompt: string): string {
+  const [, count, idea = ''] = /^Split this story into (\d+) scenes\.\s*([\s\S]*)$/.exec(prompt) ?? []
+  const sentences = idea.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean)
+  const scenes = Array.from({ length: Number(count) || 3 }, (_, index) => {
+    const text = sentences[index] ?? `And so the adventure went on (part ${index + 1}).`
+    return { text, illustration: `Fox in scene ${index + 1}: ${text}` }
+  })
+  return JSON.stringify({
+    title: idea.split(/\s+/).slice(0, 5).join(' ').replace(/[.!?,]+$/, '') || 'A Mock Story',
+    characters: 'Fox: a small orange fox with a green scarf and big curious eyes.',
+    scenes
+  })
+}
+
+// Answers flashcard requests (see lib/study/generate.ts) with one card per
+// sentence of the text
+function mockFlashcards(prompt: string): string {
+  const [, count, text = ''] = /^Make (\d+) flashcards from this text\.\s*([\s\S]*)$/.exec(prompt) ?? []
+  const sentences = text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 3)
+  const cards = sentences.slice(0, Number(count) || 5).map(sentence => ({
+    front: `What does the text say about "${sentence.split(/\s+/).slice(0, 4).join(' ')}…"?`,
+    back: sentence
+  }))
+  return JSON.stringify({ title: 'Mock study deck', cards: cards.length > 0 ? cards : [{ front: 'What is 2 + 2?', back: '4' }] })
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockRule[] = [
+  { match: /^Split this story into \d+ scenes\./, reply: mockStoryboard },
+  { match: /^Make \d+ flashcards from this text\./, reply: mockFlashcards },
+  { match: /^(hi|hello|hey)\b/i, reply: "Hello! I'm Albert (offline mock). What shall we explore today?" },
+  { match: /\b(tic\s*tac\s*toe|game)\b/i, reply: "Let's play! I'll take the centre square if it's free." },
+  {
+    match: /\bexplain\b|\bwhat is\b|\bwhy\b/i,
+    reply: prompt => `Here's a short explanation of "${prompt}":\n\n1. Start with the basics.\n2. Build on them step by step.\n3. Check your understanding with an example.`
+  }
+]
+
+export function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+// Emits `text` in fixed-size chunks on a timer, honouring the abort signal
+export function replayText(text: string, { signal, chunkSize, delayMs, onChunk }: ReplayOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let position = 0
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const abort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The stream was aborted', 'AbortError'))
+    }
+
+    if (signal?.aborted) return abort()
+    signal?.addEventListener('abort', abort, { once: true })
+
+    const tick = () => {
+      if (position >= text.length) {
+        signal?.removeEventListener('abort', abort)
+        resolve()
+        return
+      }
+      onChunk(text.slice(position, position + chunkSize))
+      position += chunkSize
+      timer = setTimeout(tick, delayMs)
+    }
+
+    timer = setTimeout(tick, delayMs)
+  })
+}
+
+function placeholderImage(prompt: string, variant: number, size = '512x512'): string {
+  const hue = (hashString(prompt) + variant * 47) % 360
+  const label = prompt.length > 28 ? `${prompt.slice(0, 28)}…` : prompt
+  const [width, height] = size.split('x').map(value => Math.round(Number(value) / 2) || 512)
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<rect width="${width}" height="${height}" fill="hsl(${hue},70%,80%)"/>
+<circle cx="${width / 2}" cy="${height * 0.43}" r="${Math.min(width, height) * 0.23}" fill="hsl(${(hue + 180) % 360},60%,60%)"/>
+<text x="${width / 2}" y="${height * 0.86}" font-family="sans-serif" font-size="22" text-anchor="middle" fill="#1f2937">${label.replace(/[<>&]/g, '')}</text>
+</svg>`
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
+}
+
+const MOCK_CLIP_MS = 2000
+const MOCK_CLIP_FPS = 24
+
+// Finished mock video jobs get a short clip drawn on a canvas and recorded in
+// the browser, returned as a data URL so it still plays after a reload
+async function renderPlaceholderVideo(seed: string): Promise<string> {
+  if (typeof document === 'undefined' || typeof MediaRecorder === 'undefined') {
+    throw new Error('Mock videos need a browser that can record a canvas.')
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = 320
+  canvas.height = 180
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas drawing is not available.')
+
+  const hue = hashString(seed) % 360
+  const startedAt = performance.now()
+  const draw = () => {
+    const t = Math.min(1, (performance.now() - startedAt) / MOCK_CLIP_MS)
+    context.fillStyle = `hsl(${hue},70%,80%)`
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.fillStyle = `hsl(${(hue + 180) % 360},60%,60%)`
+    context.beginPath()
+    context.arc(40 + t * (canvas.width - 80), canvas.height / 2, 30, 0, Math.PI * 2)
+    context.fill()
+  }
+
+  const stream = canvas.captureStream(MOCK_CLIP_FPS)
+  const recorder = new MediaRecorder(stream)
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => chunks.push(e.data)
+  const stopped = new Promise(resolve => { recorder.onstop = resolve })
+
+  draw()
+  const timer = setInterval(draw, 1000 / MOCK_CLIP_FPS)
+  recorder.start()
+  await new Promise(resolve => setTimeout(resolve, MOCK_CLIP_MS))
+  recorder.stop()
+  await stopped
+  clearInterval(timer)
+  stream.getTracks().forEach(track => track.stop())
+  return readDataUrl(new Blob(chunks, { type: recorder.mimeType }))
+}
+
+// Mock video jobs keep their start time and fate in the job id, so progress
+// can be worked out from the clock alone and survives a page reload
+const encodeVideoJob = (startedAt: number, fails: boolean) =>
+  `mock-video-${startedAt}-${fails ? 'f' : 'ok'}-${Math.random().toString(36).slice(2, 8)}`
+
+function decodeVideoJob(jobId: string) {
+  const match = /^mock-video-(\d+)-(f|ok)-\w+$/.exec(jobId)
+  return match ? { startedAt: Number(match[1]), fails: match[2] === 'f' } : null
+}
+
+// Deterministic offline provider: the same conversation always produces the
+// same reply, so the whole UI can run without network access.
+export function createMockProvider({
+  script = DEFAULT_MOCK_SCRIPT,
+  chunkSize = 4,
+  delayMs = 20,
+  blockedWords = ['kill', 'weapon', 'drugs'],
+  videoQueueMs = 3000,
+  videoRenderMs = 15000
+}: MockProviderOptions = {}): ChatProvider {
+  const cancelledVideos = new Set<string>()
+  // Each finished job's clip is recorded once
+  const clips = new Map<string, Promise<string>>()
+
+  const videoJob = (jobId: string): VideoJobUpdate => {
+    const job = decodeVideoJob(jobId)
+    if (!job) return { jobId, status: 'failed', progress: 0, error: 'Unknown video job.' }
+    if (cancelledVideos.has(jobId)) return { jobId, status: 'cancelled', progress: 0 }
+
+    const elapsed = Date.now() - job.startedAt
+    if (elapsed < videoQueueMs) return { jobId, status: 'queued', progress: 0 }
+
+    const progress = Math.min(1, (elapsed - videoQueueMs) / videoRenderMs)
+    // Prompts mentioning "fail" give up halfway, to exercise the retry path
+    if (job.fails && progress >= 0.5) return { jobId, status: 'failed', progress: 0.5, error: 'The mock renderer gave up halfway.' }
+    if (progress < 1) return { jobId, status: 'running', progress }
+    return { jobId, status: 'succeeded', progress: 1 }
+  }
+
+  const finishedVideoJob = async (jobId: string): Promise<VideoJobUpdate> => {
+    const update = videoJob(jobId)
+    if (update.status !== 'succeeded') return update
+
+    let clip = clips.get(jobId)
+    if (!clip) {
+      clip = renderPlaceholderVideo(jobId)
+      clips.set(jobId, clip)
+    }
+    try {
+      return { ...update, url: await clip }
+    } catch (error) {
+      clips.delete(jobId)
+      return { jobId, status: 'failed', progress: 1, error: error instanceof Error ? error.message : 'The mock clip could not be recorded.' }
+    }
+  }
+
+  const respond = (messages: ChatTurn[]) => {
+    const prompt = [...messages].reverse().find(message => message.role === 'user')?.content.trim() ?? ''
+    const rule = script.find(candidate => candidate.match.test(prompt))
+    if (rule) {
+      return typeof rule.reply === 'function' ? rule.reply(prompt, messages) : rule.reply
+    }
+    return `(mock reply #${hashString(prompt) % 1000}) You said: ${prompt}`
+  }
+
+  return {
+    name: 'mock',
+
+    async generateText({ messages, signal }) {
+      if (signal?.aborted) throw new DOMException('The request was aborted', 'AbortError')
+      return { text: respond(messages), finishReason: 'stop' }
+    },
+
+    async streamText({ messages, signal }, onChunk) {
+      const text = respond(messages)
+      await replayText(text, { signal, chunkSize, delayMs, onChunk })
+      return { text, finishReason: 'stop' }
+    },
+
+    // The same prompt and seed always give the same placeholders
+    async generateImage({ prompt, n = 1, size, seed = 0 }) {
+      return { urls: Array.from({ length: n }, (_, variant) => placeholderImage(prompt, seed + variant, size)) }
+    },
+
+    // A placeholder that differs from the source, so the edit is visible
+    async editImage({ prompt, images, n = 1, size }) {
+      const variant = hashString(images[0] ?? '') % 360
+      return { urls: Array.from({ length: n }, (_, index) => placeholderImage(`Edited: ${prompt}`, variant + index, size)) }
+    },
+
+    async moderate(text) {
+      // Whole words only, so "skill" doesn't trip "kill"
+      const categories = blockedWords.filter(word =>
+        new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text))
+      return { flagged: categories.length > 0, categories }
+    },
+
+    async startVideo({ prompt }) {
+      return videoJob(encodeVideoJob(Date.now(), /\bfail/i.test(prompt)))
+    },
+
+    getVideoJob: finishedVideoJob,
+
+    async cancelVideo(jobId) {
+      cancelledVideos.add(jobId)
+    },
+
+    async transcribeAudio({ audio, signal }) {
+      if (signal?.aborted) throw new DOMException('The request was aborted', 'AbortError')
+      return `(mock transcript of ${Math.round(audio.size / 1024)} KB of audio)`
+    },
+
+    // Nothing to upload to offline; inline the file instead
+    uploadFile: file => readDataUrl(file)
+  }
+}
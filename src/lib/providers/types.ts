@@ -0,0 +1,90 @@
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+  // Image URLs sent alongside the text (multimodal input)
+  images?: string[]
+}
+
+export interface TextRequest {
+  messages: ChatTurn[]
+  temperature?: number
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+export interface TextResult {
+  text: string
+  finishReason?: 'stop' | 'length' | 'content_filter' | 'tool_calls'
+}
+
+export interface ImageRequest {
+  prompt: string
+  // "WIDTHxHEIGHT", e.g. "1024x1536"
+  size?: string
+  n?: number
+  // Things to keep out of the image
+  negativePrompt?: string
+  // Only honoured by providers that support reproducible generation
+  seed?: number
+  signal?: AbortSignal
+}
+
+export interface ImageEditRequest {
+  prompt: string
+  // The image to edit first, then any reference images (e.g. a marked-up copy
+  // or a mask); all must be fetchable URLs
+  images: string[]
+  size?: string
+  n?: number
+  signal?: AbortSignal
+}
+
+export interface ImageResult {
+  urls: string[]
+}
+
+export type VideoJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface VideoRequest {
+  prompt: string
+  durationSeconds?: number
+}
+
+// The provider's view of a long-running video generation
+export interface VideoJobUpdate {
+  jobId: string
+  status: VideoJobStatus
+  // 0–1
+  progress: number
+  url?: string
+  error?: string
+}
+
+export interface TranscriptionRequest {
+  audio: Blob
+  language?: string
+  signal?: AbortSignal
+}
+
+export interface ModerationResult {
+  flagged: boolean
+  categories: string[]
+}
+
+// Every AI capability the app uses goes through this interface so the backend
+// can be swapped (see VITE_CHAT_PROVIDER in vite-env.d.ts).
+export interface ChatProvider {
+  name: string
+  generateText(request: TextRequest): Promise<TextResult>
+  streamText(request: TextRequest, onChunk: (chunk: string) => void): Promise<TextResult>
+  generateImage(request: ImageRequest): Promise<ImageResult>
+  editImage(request: ImageEditRequest): Promise<ImageResult>
+  moderate(text: string): Promise<ModerationResult>
+  // Videos take minutes: start a job, then poll it until it settles
+  startVideo(request: VideoRequest): Promise<VideoJobUpdate>
+  getVideoJob(jobId: string): Promise<VideoJobUpdate>
+  cancelVideo(jobId: string): Promise<void>
+  transcribeAudio(request: TranscriptionRequest): Promise<string>
+  // Stores a file and returns a URL the model can fetch
+  uploadFile(file: Blob, path: string): Promise<string>
+}
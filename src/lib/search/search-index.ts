@@ -0,0 +1,156 @@
+import type { Conversation, Message } from '../chat/types'
+import { stem } from './stem'
+
+export type SearchableType = 'text' | 'image' | 'video' | 'game'
+
+export interface SearchFilters {
+  conversationId?: string
+  role?: Message['role']
+  type?: SearchableType
+  from?: Date
+  to?: Date
+}
+
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+export interface SearchHit {
+  conversationId: string
+  conversationTitle: string
+  message: Message
+  score: number
+  snippet: SnippetPart[]
+}
+
+interface IndexedMessage {
+  conversationId: string
+  conversationTitle: string
+  message: Message
+  // Stem -> occurrences in the message
+  terms: Map<string, number>
+  length: number
+}
+
+export interface SearchIndex {
+  documents: Map<string, IndexedMessage>
+  postings: Map<string, Set<string>>
+}
+
+const WORD = /[\p{L}\p{N}]+/gu
+const SNIPPET_RADIUS = 60
+
+export const tokenize = (text: string) => text.match(WORD) ?? []
+
+// Only the active thread is indexed: that's what the user sees when jumping
+// to a hit. Persona markers aren't real content.
+export function buildSearchIndex(conversations: Conversation[]): SearchIndex {
+  const documents = new Map<string, IndexedMessage>()
+  const postings = new Map<string, Set<string>>()
+
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      if (message.type === 'persona' || !message.content.trim()) continue
+
+      const words = tokenize(message.content)
+      const terms = new Map<string, number>()
+      for (const word of words) {
+        const term = stem(word)
+        terms.set(term, (terms.get(term) ?? 0) + 1)
+      }
+
+      documents.set(message.id, {
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        message,
+        terms,
+        length: words.length
+      })
+
+      for (const term of terms.keys()) {
+        let ids = postings.get(term)
+        if (!ids) {
+          ids = new Set()
+          postings.set(term, ids)
+        }
+        ids.add(message.id)
+      }
+    }
+  }
+
+  return { documents, postings }
+}
+
+function matchesFilters({ conversationId, message }: IndexedMessage, filters: SearchFilters): boolean {
+  const timestamp = new Date(message.timestamp)
+  if (filters.conversationId && conversationId !== filters.conversationId) return false
+  if (filters.role && message.role !== filters.role) return false
+  if (filters.type && (message.type ?? 'text') !== filters.type) return false
+  if (filters.from && timestamp < filters.from) return false
+  if (filters.to && timestamp > filters.to) return false
+  return true
+}
+
+// Cuts a window around the first matching word and marks every match in it
+export function buildSnippet(content: string, stems: Set<string>): SnippetPart[] {
+  const matches = [...content.matchAll(WORD)].filter(match => stems.has(stem(match[0])))
+  const first = matches[0]?.index ?? 0
+
+  const start = Math.max(0, first - SNIPPET_RADIUS)
+  const end = Math.min(content.length, first + SNIPPET_RADIUS * 2)
+  const parts: SnippetPart[] = []
+  let cursor = start
+
+  for (const match of matches) {
+    const index = match.index ?? 0
+    if (index < start || index + match[0].length > end) continue
+    if (index > cursor) parts.push({ text: content.slice(cursor, index), match: false })
+    parts.push({ text: match[0], match: true })
+    cursor = index + match[0].length
+  }
+  if (cursor < end) parts.push({ text: content.slice(cursor, end), match: false })
+
+  if (start > 0) parts.unshift({ text: '…', match: false })
+  if (end < content.length) parts.push({ text: '…', match: false })
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }))
+}
+
+// Every query word must match (after stemming); hits are ranked by TF-IDF
+// with newer messages winning ties.
+export function search(index: SearchIndex, query: string, filters: SearchFilters = {}, limit = 50): SearchHit[] {
+  const stems = [...new Set(tokenize(query).map(stem))]
+  if (stems.length === 0) return []
+
+  const [rarest, ...rest] = stems
+    .map(term => ({ term, ids: index.postings.get(term) ?? new Set<string>() }))
+    .sort((a, b) => a.ids.size - b.ids.size)
+
+  const total = index.documents.size
+  const hits: SearchHit[] = []
+
+  for (const id of rarest.ids) {
+    if (!rest.every(({ ids }) => ids.has(id))) continue
+
+    const document = index.documents.get(id)
+    if (!document || !matchesFilters(document, filters)) continue
+
+    const score = stems.reduce((sum, term) => {
+      const frequency = (document.terms.get(term) ?? 0) / document.length
+      const rarity = Math.log(1 + total / (index.postings.get(term)?.size ?? 1))
+      return sum + frequency * rarity
+    }, 0)
+
+    hits.push({
+      conversationId: document.conversationId,
+      conversationTitle: document.conversationTitle,
+      message: document.message,
+      score,
+      snippet: buildSnippet(document.message.content, new Set(stems))
+    })
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || new Date(b.message.timestamp).getTime() - new Date(a.message.timestamp).getTime())
+    .slice(0, limit)
+}
@@ -0,0 +1,61 @@
+// A light English stemmer: strips the common inflectional and derivational
+// suffixes so "playing", "played" and "plays" all index as "play". Not a full
+// Porter implementation, but predictable and good enough for chat search.
+
+const VOWEL = /[aeiouy]/
+
+const SUFFIXES: Array<[suffix: string, replacement: string]> = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ousness', 'ous'],
+  ['ations', 'ate'],
+  ['ation', 'ate'],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['edly', ''],
+  // "agreed" and "freed" keep the "ee" of "agree" and "free"
+  ['eed', 'ee'],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', '']
+]
+
+// Final e and y are dropped/normalised so "generate" and "generated" or
+// "happy" and "happiness" meet on the same stem. Short words go through it
+// too, or "use" would miss "used" and "using" (both stripped to "us").
+const normalise = (stemmed: string) => stemmed.replace(/(..)e$/, '$1').replace(/(.)y$/, '$1i')
+
+function stripSuffix(lower: string): string {
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (!lower.endsWith(suffix)) continue
+
+    const base = lower.slice(0, -suffix.length)
+    // "need" and "seed" aren't "nee" and "see" with a suffix
+    if (suffix === 'eed' && base.length < 2) return lower
+    // Keep a vowel in what's left so "sing" and "bed" survive intact
+    if (base.length < 2 || (replacement !== 'y' && replacement !== 'ee' && !VOWEL.test(base))) continue
+    if (suffix === 's' && /(ss|us|is)$/.test(lower)) return lower
+    if (suffix === 'es' && !/(sh|ch|x|z|ss)$/.test(base)) return lower.slice(0, -1)
+
+    const stemmed = base + replacement
+    // "stopped" -> "stopp" -> "stop"
+    return (suffix === 'ing' || suffix === 'ed') && /([bdfgmnprt])\1$/.test(stemmed)
+      ? stemmed.slice(0, -1)
+      : stemmed
+  }
+  return lower
+}
+
+export function stem(word: string): string {
+  const lower = word.toLowerCase()
+  // Suffixes are left on very short words ("bus", "was")
+  return normalise(lower.length <= 3 ? lower : stripSuffix(lower))
+}
@@ -0,0 +1,55 @@
+import { createMemoryStore, type RecordStore, type StoredRecord } from './record-store'
+
+const DB_PREFIX = 'albert'
+const STORE_NAME = 'records'
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(`${DB_PREFIX}-${name}`, 1)
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+    }
+  }
+  return promisify(request)
+}
+
+// Each store lives in its own database so features never have to coordinate
+// schema versions with each other.
+export function createIndexedDbStore<T extends StoredRecord>(name: string): RecordStore<T> {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryStore<T>()
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    dbPromise ??= openDatabase(name)
+    const db = await dbPromise
+    return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+  }
+
+  return {
+    async list() {
+      return withStore('readonly', store => store.getAll() as IDBRequest<T[]>)
+    },
+    async get(id) {
+      return withStore('readonly', store => store.get(id) as IDBRequest<T | undefined>)
+    },
+    async put(record) {
+      await withStore('readwrite', store => store.put(record))
+    },
+    async remove(id) {
+      await withStore('readwrite', store => store.delete(id))
+    },
+    async clear() {
+      await withStore('readwrite', store => store.clear())
+    }
+  }
+}
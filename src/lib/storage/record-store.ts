@@ -0,0 +1,35 @@
+export interface StoredRecord {
+  id: string
+}
+
+// Minimal persistence contract shared by every local store. Backends can be
+// swapped (IndexedDB, memory, remote) without touching the callers.
+export interface RecordStore<T extends StoredRecord> {
+  list(): Promise<T[]>
+  get(id: string): Promise<T | undefined>
+  put(record: T): Promise<void>
+  remove(id: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export function createMemoryStore<T extends StoredRecord>(initial: T[] = []): RecordStore<T> {
+  const records = new Map(initial.map(record => [record.id, record]))
+
+  return {
+    async list() {
+      return [...records.values()]
+    },
+    async get(id) {
+      return records.get(id)
+    },
+    async put(record) {
+      records.set(record.id, record)
+    },
+    async remove(id) {
+      records.delete(id)
+    },
+    async clear() {
+      records.clear()
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { blink } from '../../blink/client'
+import { createIndexedDbStore } from './indexeddb'
+import type { RecordStore, StoredRecord } from './record-store'
+
+// Store names are suffixed with the signed-in user's id so data never leaks
+// between accounts sharing a browser.
+export function userScopedName(name: string): string {
+  return `${name}-${blink.auth.currentUser()?.id ?? 'guest'}`
+}
+
+const stores = new Map<string, RecordStore<StoredRecord>>()
+
+// The signed-in user's copy of a store, opened on first use. Call it each time
+// rather than keeping the result, so a different account gets its own store.
+export function userScopedStore<T extends StoredRecord>(name: string): RecordStore<T> {
+  const scoped = userScopedName(name)
+  let store = stores.get(scoped)
+  if (!store) {
+    store = createIndexedDbStore<T>(scoped) as RecordStore<StoredRecord>
+    stores.set(scoped, store)
+  }
+  return store as RecordStore<T>
+}
@@ -0,0 +1,73 @@
+import { format } from 'date-fns'
+import { readDataUrl } from '../chat/attachments'
+import { downloadFile, escapeHtml } from '../chat/transcript'
+import type { Storyboard } from './storyboard'
+
+const BOOK_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f2937; background: #fdfaf3; margin: 0; }
+  .cover, .page { max-width: 52rem; margin: 0 auto; padding: 3rem 1.5rem; break-after: page; }
+  .cover { text-align: center; min-height: 60vh; display: flex; flex-direction: column; justify-content: center; }
+  .cover h1 { font-size: 2.75rem; margin: 0 0 1rem; }
+  .cover p { color: #6b7280; font-style: italic; }
+  .page img { width: 100%; aspect-ratio: 3 / 2; object-fit: cover; border-radius: 1rem; box-shadow: 0 4px 16px rgb(0 0 0 / 0.12); }
+  .page .missing { width: 100%; aspect-ratio: 3 / 2; border-radius: 1rem; border: 2px dashed #d1d5db; }
+  .page p { font-size: 1.5rem; line-height: 1.6; margin: 1.5rem 0 0.5rem; }
+  .page .number { color: #9ca3af; font-size: 0.9rem; text-align: center; }
+  .end { text-align: center; font-size: 2rem; padding: 4rem 0; }
+  @media print { body { background: none; } .page img { box-shadow: none; } }
+`
+
+// Inlines each picture so the book still opens offline and after the
+// generated image URLs expire; cross-origin images that can't be fetched keep
+// their URL
+async function embedImage(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return url
+    return await readDataUrl(await response.blob())
+  } catch {
+    return url
+  }
+}
+
+export async function toPictureBookHtml(board: Storyboard): Promise<string> {
+  const images = await Promise.all(board.scenes.map(scene => scene.imageUrl ? embedImage(scene.imageUrl) : Promise.resolve(null)))
+
+  const pages = board.scenes.map((scene, index) => {
+    const image = images[index]
+    const picture = image
+      ? `<img src="${escapeHtml(image)}" alt="${escapeHtml(scene.illustration)}">`
+      : '<div class="missing"></div>'
+    return `<section class="page">
+  ${picture}
+  <p>${escapeHtml(scene.text)}</p>
+  <div class="number">${index + 1}</div>
+</section>`
+  }).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(board.title)}</title>
+<style>${BOOK_STYLES}</style>
+</head>
+<body>
+<section class="cover">
+  <h1>${escapeHtml(board.title)}</h1>
+  <p>A story made with Albert · ${escapeHtml(format(new Date(board.createdAt), 'PP'))}</p>
+</section>
+${pages}
+<p class="end">The End</p>
+</body>
+</html>`
+}
+
+export const pictureBookFileName = (board: Storyboard) =>
+  `${board.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'storyboard'}.html`
+
+export async function exportPictureBook(board: Storyboard) {
+  downloadFile(pictureBookFileName(board), await toPictureBookHtml(board), 'text/html')
+}
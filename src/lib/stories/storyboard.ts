@@ -0,0 +1,157 @@
+import { z } from 'zod'
+import { createId, extractJsonObject } from '../utils'
+import { stylePreset } from '../images/studio'
+import type { ChatProvider } from '../providers/types'
+
+export const MIN_SCENES = 3
+export const MAX_SCENES = 8
+export const DEFAULT_SCENE_COUNT = 5
+// Storyboards are laid out as picture-book spreads, so scenes are landscape
+export const SCENE_IMAGE_SIZE = '1536x1024'
+
+export type SceneImageStatus = 'pending' | 'generating' | 'ready' | 'failed'
+
+export interface Scene {
+  id: string
+  text: string
+  // What the picture should show, without the character sheet
+  illustration: string
+  imageUrl?: string
+  imageStatus: SceneImageStatus
+}
+
+export interface Storyboard {
+  id: string
+  title: string
+  // The idea the user started from
+  prompt: string
+  // Appearance of every recurring character, added to each scene's image
+  // prompt so they look the same from picture to picture
+  characters: string
+  style: string
+  scenes: Scene[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export class StoryboardError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StoryboardError'
+  }
+}
+
+const planSchema = z.object({
+  title: z.string().min(1),
+  characters: z.string(),
+  scenes: z.array(z.object({
+    text: z.string().min(1),
+    illustration: z.string().min(1)
+  })).min(1)
+})
+
+export type StoryboardPlan = z.infer<typeof planSchema>
+
+// The mock provider recognises this opening line (see DEFAULT_MOCK_SCRIPT)
+export const planRequest = (idea: string, sceneCount: number) =>
+  `Split this story into ${sceneCount} scenes.\n\n${idea.trim()}`
+
+const PLAN_INSTRUCTIONS = `You turn story ideas into illustrated picture books for children.
+If the user gives only an idea, write a short, gentle story from it first; if they give a whole story, keep their words.
+Reply with JSON only, no code fences, in exactly this shape:
+{"title": string, "characters": string, "scenes": [{"text": string, "illustration": string}]}
+- "characters": one sentence per recurring character fixing their look (species, age, clothes, colours), so an illustrator draws them the same every time.
+- "text": the words printed on that page, 1–3 sentences.
+- "illustration": what the picture shows, naming characters but not re-describing them.`
+
+export function parsePlan(text: string, sceneCount: number): StoryboardPlan {
+  const json = extractJsonObject(text)
+  if (json === undefined) throw new StoryboardError("Albert didn't return a storyboard. Please try again.")
+  const parsed = planSchema.safeParse(json)
+  if (!parsed.success) throw new StoryboardError("Albert's storyboard was incomplete. Please try again.")
+  return { ...parsed.data, scenes: parsed.data.scenes.slice(0, sceneCount) }
+}
+
+export async function planStoryboard(
+  provider: ChatProvider,
+  idea: string,
+  sceneCount: number,
+  signal?: AbortSignal
+): Promise<StoryboardPlan> {
+  const { text } = await provider.generateText({
+    messages: [
+      { role: 'system', content: PLAN_INSTRUCTIONS },
+      { role: 'user', content: planRequest(idea, sceneCount) }
+    ],
+    temperature: 0.7,
+    signal
+  })
+  return parsePlan(text, sceneCount)
+}
+
+export function createStoryboard(idea: string, style: string, plan: StoryboardPlan): Storyboard {
+  const now = new Date()
+  return {
+    id: createId(),
+    title: plan.title.trim(),
+    prompt: idea.trim(),
+    characters: plan.characters.trim(),
+    style,
+    scenes: plan.scenes.map(scene => ({
+      id: createId(),
+      text: scene.text.trim(),
+      illustration: scene.illustration.trim(),
+      imageStatus: 'pending'
+    })),
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export function sceneImagePrompt(board: Storyboard, scene: Scene): string {
+  const { suffix } = stylePreset(board.style)
+  return [
+    scene.illustration,
+    board.characters && `Characters: ${board.characters}`,
+    suffix && `Style: ${suffix}, consistent across a picture book`
+  ]
+    .filter((part): part is string => !!part)
+    .map(part => part.trim().replace(/[.\s]+$/, ''))
+    .join('. ')
+}
+
+export async function generateSceneImage(
+  provider: ChatProvider,
+  board: Storyboard,
+  scene: Scene,
+  signal?: AbortSignal
+): Promise<string> {
+  const { urls } = await provider.generateImage({
+    prompt: sceneImagePrompt(board, scene),
+    size: SCENE_IMAGE_SIZE,
+    n: 1,
+    signal
+  })
+  if (!urls[0]) throw new StoryboardError('No picture came back for this scene.')
+  return urls[0]
+}
+
+export function updateScene(board: Storyboard, sceneId: string, patch: Partial<Scene>): Storyboard {
+  return {
+    ...board,
+    scenes: board.scenes.map(scene => scene.id === sceneId ? { ...scene, ...patch } : scene),
+    updatedAt: new Date()
+  }
+}
+
+// Moves `sceneId` into the slot currently held by `targetId`
+export function moveScene(board: Storyboard, sceneId: string, targetId: string): Storyboard {
+  const from = board.scenes.findIndex(scene => scene.id === sceneId)
+  const to = board.scenes.findIndex(scene => scene.id === targetId)
+  if (from === -1 || to === -1 || from === to) return board
+
+  const scenes = [...board.scenes]
+  const [moved] = scenes.splice(from, 1)
+  scenes.splice(to, 0, moved)
+  return { ...board, scenes, updatedAt: new Date() }
+}
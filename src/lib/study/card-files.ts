@@ -0,0 +1,157 @@
+import { downloadFile } from '../chat/transcript'
+import type { CardInput, Deck } from './decks'
+
+export const CARD_FILE_FORMATS = ['csv', 'anki'] as const
+export type CardFileFormat = typeof CARD_FILE_FORMATS[number]
+
+export interface ParsedCards {
+  cards: CardInput[]
+  // Rows without both a front and a back
+  skipped: number
+}
+
+const HEADER_ROWS = [['front', 'back'], ['question', 'answer'], ['term', 'definition']]
+
+const quoteCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export function toCsv(deck: Deck): string {
+  return ['front,back', ...deck.cards.map(card => `${quoteCsv(card.front)},${quoteCsv(card.back)}`)].join('\r\n')
+}
+
+const quoteAnki = (value: string) => value.includes('"') ? `"${value.replace(/"/g, '""')}"` : value
+
+// Anki reads a field starting with a quote as a quoted field, so any field
+// with one is quoted in full
+const escapeAnki = (value: string) => quoteAnki(value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\t/g, ' ')
+  .replace(/\r?\n/g, '<br>'))
+
+// Anki's "Notes in Plain Text" import: tab-separated, HTML fields, with file
+// headers so it picks the right separator and note type without asking
+export function toAnkiTsv(deck: Deck): string {
+  const headers = ['#separator:tab', '#html:true', '#notetype:Basic', `#deck:${deck.title.replace(/[\r\n]/g, ' ')}`]
+  return [...headers, ...deck.cards.map(card => `${escapeAnki(card.front)}\t${escapeAnki(card.back)}`)].join('\n')
+}
+
+const unescapeAnki = (value: string) => value
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&amp;/g, '&')
+
+// RFC 4180: quoted fields may contain separators, doubled quotes and newlines
+function parseDelimitedRows(text: string, separator: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && !field) {
+      quoted = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// Anki's "#key:value" file headers only ever come first; a later card may
+// well start with "#"
+function parseTsvRows(text: string): string[][] {
+  const lines = text.split(/\r?\n/)
+  const headers = lines.findIndex(line => !line.startsWith('#'))
+  const body = headers === -1 ? '' : lines.slice(headers).join('\n')
+  return parseDelimitedRows(body, '\t').map(row => row.map(unescapeAnki))
+}
+
+function isTsv(text: string, fileName: string): boolean {
+  if (/\.csv$/i.test(fileName)) return false
+  if (/\.(tsv|txt)$/i.test(fileName)) return true
+  return text.split(/\r?\n/).some(line => !line.startsWith('#') && line.includes('\t'))
+}
+
+// Reads our own exports, Anki plain-text exports and most spreadsheet CSVs
+export function parseCardFile(text: string, fileName = ''): ParsedCards {
+  // Spreadsheet apps often start UTF-8 exports with a byte order mark
+  const content = text.replace(/^\uFEFF/, '')
+  const rows = (isTsv(content, fileName) ? parseTsvRows(content) : parseDelimitedRows(content, ','))
+    .filter(row => row.some(cell => cell.trim()))
+
+  const [first] = rows
+  const hasHeader = first && HEADER_ROWS.some(([front, back]) =>
+    first[0]?.trim().toLowerCase() === front && first[1]?.trim().toLowerCase() === back)
+
+  const cards: CardInput[] = []
+  let skipped = 0
+  for (const [front = '', back = ''] of hasHeader ? rows.slice(1) : rows) {
+    if (front.trim() && back.trim()) cards.push({ front: front.trim(), back: back.trim() })
+    else skipped++
+  }
+  return { cards, skipped }
+}
+
+export class CardFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CardFileError'
+  }
+}
+
+// Throws CardFileError with a message for the user when the file can't be
+// read or has no complete rows
+export async function readCardFile(file: File): Promise<ParsedCards> {
+  let content: string
+  try {
+    content = await file.text()
+  } catch (error) {
+    console.error('Failed to read card file:', error)
+    throw new CardFileError(`Couldn't read ${file.name}.`)
+  }
+
+  const parsed = parseCardFile(content, file.name)
+  if (parsed.cards.length === 0) throw new CardFileError('No cards found. Each row needs a front and a back.')
+  return parsed
+}
+
+export const deckFileName = (deck: Deck, cardFormat: CardFileFormat) =>
+  `${deck.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'deck'}${cardFormat === 'anki' ? '-anki.txt' : '.csv'}`
+
+export function exportDeck(deck: Deck, cardFormat: CardFileFormat) {
+  switch (cardFormat) {
+    case 'csv':
+      return downloadFile(deckFileName(deck, 'csv'), toCsv(deck), 'text/csv')
+    case 'anki':
+      return downloadFile(deckFileName(deck, 'anki'), toAnkiTsv(deck), 'text/plain')
+  }
+}
@@ -0,0 +1,148 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns'
+import { createId } from '../utils'
+import { cardMaturity, isDue, newSchedule, scheduleReview, type CardSchedule, type ReviewGrade } from './sm2'
+
+export interface CardInput {
+  front: string
+  back: string
+}
+
+export interface Flashcard extends CardInput {
+  id: string
+  schedule: CardSchedule
+  createdAt: Date
+}
+
+export interface ReviewLog {
+  cardId: string
+  grade: ReviewGrade
+  reviewedAt: Date
+}
+
+export interface Deck {
+  id: string
+  title: string
+  // Where the cards came from, e.g. a conversation title
+  source?: string
+  cards: Flashcard[]
+  reviews: ReviewLog[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface DeckStats {
+  total: number
+  due: number
+  new: number
+  learning: number
+  mature: number
+  reviews: number
+  // Share of reviews answered without "Again"; null before the first review
+  retention: number | null
+}
+
+export interface ReviewBucket {
+  label: string
+  start: Date
+  recalled: number
+  forgotten: number
+}
+
+export interface ForecastBucket {
+  label: string
+  start: Date
+  due: number
+}
+
+const cardKey = (card: CardInput) => `${card.front.trim().toLowerCase()}\u0000${card.back.trim().toLowerCase()}`
+
+function toFlashcards(cards: CardInput[], now: Date, existing: Flashcard[] = []): Flashcard[] {
+  const seen = new Set(existing.map(cardKey))
+  const added: Flashcard[] = []
+  for (const card of cards) {
+    const front = card.front.trim()
+    const back = card.back.trim()
+    if (!front || !back || seen.has(cardKey(card))) continue
+    seen.add(cardKey(card))
+    added.push({ id: createId(), front, back, schedule: newSchedule(now), createdAt: now })
+  }
+  return added
+}
+
+export function createDeck(title: string, cards: CardInput[], source?: string, now = new Date()): Deck {
+  return {
+    id: createId(),
+    title: title.trim() || 'Untitled deck',
+    source,
+    cards: toFlashcards(cards, now),
+    reviews: [],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Cards already in the deck (same front and back) are skipped
+export function addCards(deck: Deck, cards: CardInput[], now = new Date()): Deck {
+  return { ...deck, cards: [...deck.cards, ...toFlashcards(cards, now, deck.cards)], updatedAt: now }
+}
+
+export function dueCards(deck: Deck, now = new Date()): Flashcard[] {
+  return deck.cards
+    .filter(card => isDue(card.schedule, now))
+    .sort((a, b) => new Date(a.schedule.due).getTime() - new Date(b.schedule.due).getTime())
+}
+
+export function reviewCard(deck: Deck, cardId: string, grade: ReviewGrade, now = new Date()): Deck {
+  return {
+    ...deck,
+    cards: deck.cards.map(card => card.id === cardId ? { ...card, schedule: scheduleReview(card.schedule, grade, now) } : card),
+    reviews: [...deck.reviews, { cardId, grade, reviewedAt: now }],
+    updatedAt: now
+  }
+}
+
+export function deckStats(deck: Deck, now = new Date()): DeckStats {
+  const stats: DeckStats = { total: deck.cards.length, due: 0, new: 0, learning: 0, mature: 0, reviews: deck.reviews.length, retention: null }
+  for (const card of deck.cards) {
+    if (isDue(card.schedule, now)) stats.due++
+    stats[cardMaturity(card.schedule)]++
+  }
+  if (deck.reviews.length > 0) {
+    stats.retention = deck.reviews.filter(review => review.grade !== 'again').length / deck.reviews.length
+  }
+  return stats
+}
+
+// One bucket per day for the last `days` days, including days with no reviews
+export function bucketReviews(deck: Deck, days = 14, now = new Date()): ReviewBucket[] {
+  const first = startOfDay(addDays(now, 1 - days))
+  const buckets = Array.from({ length: days }, (_, index) => {
+    const start = addDays(first, index)
+    return { label: format(start, 'MMM d'), start, recalled: 0, forgotten: 0 }
+  })
+
+  for (const review of deck.reviews) {
+    const index = differenceInCalendarDays(new Date(review.reviewedAt), first)
+    const bucket = buckets[index]
+    if (!bucket) continue
+    if (review.grade === 'again') bucket.forgotten++
+    else bucket.recalled++
+  }
+  return buckets
+}
+
+// Cards coming due on each of the next `days` days; overdue cards count today
+export function forecastDue(deck: Deck, days = 7, now = new Date()): ForecastBucket[] {
+  const today = startOfDay(now)
+  const buckets = Array.from({ length: days }, (_, index) => {
+    const start = addDays(today, index)
+    return { label: index === 0 ? 'Today' : format(start, 'EEE'), start, due: 0 }
+  })
+
+  for (const card of deck.cards) {
+    const offset = differenceInCalendarDays(new Date(card.schedule.due), today)
+    const bucket = buckets[Math.max(0, offset)]
+    if (bucket) bucket.due++
+  }
+  return buckets
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import { extractJsonObject } from '../utils'
+import { toChatTurns } from '../chat/streaming'
+import type { ChatProvider } from '../providers/types'
+import type { Conversation } from '../chat/types'
+import type { CardInput } from './decks'
+
+export const CARD_COUNTS = [5, 10, 15, 20]
+export const DEFAULT_CARD_COUNT = 10
+// Keeps very long conversations within a single request
+const MAX_SOURCE_CHARS = 24_000
+
+export class FlashcardError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FlashcardError'
+  }
+}
+
+const generatedSchema = z.object({
+  title: z.string().min(1),
+  cards: z.array(z.object({ front: z.string().min(1), back: z.string().min(1) })).min(1)
+})
+
+export type GeneratedDeck = z.infer<typeof generatedSchema>
+
+// The mock provider recognises this opening line (see DEFAULT_MOCK_SCRIPT)
+export const flashcardRequest = (text: string, count: number) =>
+  `Make ${count} flashcards from this text.\n\n${text.trim().slice(0, MAX_SOURCE_CHARS)}`
+
+const FLASHCARD_INSTRUCTIONS = `You write study flashcards for students.
+Each card tests one fact or idea from the text: a short question or term on the front, a clear answer of at most two sentences on the back.
+Skip chit-chat and anything not worth remembering.
+Reply with JSON only, no code fences, in exactly this shape:
+{"title": string, "cards": [{"front": string, "back": string}]}`
+
+// The conversation's active thread as plain text to study from
+export function conversationStudyText(conversation: Conversation): string {
+  return toChatTurns(conversation.messages)
+    .map(turn => `${turn.role === 'user' ? 'Student' : 'Albert'}: ${turn.content}`)
+    .join('\n\n')
+}
+
+export async function generateFlashcards(
+  provider: ChatProvider,
+  text: string,
+  count: number,
+  signal?: AbortSignal
+): Promise<{ title: string; cards: CardInput[] }> {
+  if (!text.trim()) throw new FlashcardError('There is nothing to make flashcards from yet.')
+
+  const { text: reply } = await provider.generateText({
+    messages: [
+      { role: 'system', content: FLASHCARD_INSTRUCTIONS },
+      { role: 'user', content: flashcardRequest(text, count) }
+    ],
+    temperature: 0.3,
+    signal
+  })
+
+  const parsed = generatedSchema.safeParse(extractJsonObject(reply))
+  if (!parsed.success) throw new FlashcardError("Albert's flashcards couldn't be read. Please try again.")
+  return { title: parsed.data.title.trim(), cards: parsed.data.cards.slice(0, count) }
+}
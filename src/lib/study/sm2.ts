@@ -0,0 +1,86 @@
+import { addDays, addMinutes, differenceInMinutes } from 'date-fns'
+
+// SM-2 (SuperMemo 2) scheduling. Each answer is graded on SM-2's 0–5 quality
+// scale; the four buttons map onto it.
+export const REVIEW_GRADES = [
+  { id: 'again', label: 'Again', quality: 1 },
+  { id: 'hard', label: 'Hard', quality: 3 },
+  { id: 'good', label: 'Good', quality: 4 },
+  { id: 'easy', label: 'Easy', quality: 5 }
+] as const
+
+export type ReviewGrade = typeof REVIEW_GRADES[number]['id']
+
+export const INITIAL_EASE = 2.5
+export const MIN_EASE = 1.3
+// Forgotten cards come back within the same session
+export const RELEARN_MINUTES = 10
+// Cards with intervals this long (in days) count as learnt
+export const MATURE_INTERVAL = 21
+
+export interface CardSchedule {
+  ease: number
+  // Days from the last successful review to the next; 0 for new cards
+  interval: number
+  // Successful reviews in a row
+  repetitions: number
+  lapses: number
+  due: Date
+  lastReviewed?: Date
+}
+
+export type CardMaturity = 'new' | 'learning' | 'mature'
+
+export const newSchedule = (now = new Date()): CardSchedule => ({
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now
+})
+
+const qualityOf = (grade: ReviewGrade) => REVIEW_GRADES.find(candidate => candidate.id === grade)?.quality ?? 0
+
+export function scheduleReview(schedule: CardSchedule, grade: ReviewGrade, now = new Date()): CardSchedule {
+  const quality = qualityOf(grade)
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+
+  if (quality < 3) {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: schedule.lapses + (schedule.repetitions > 0 ? 1 : 0),
+      due: addMinutes(now, RELEARN_MINUTES),
+      lastReviewed: now
+    }
+  }
+
+  const interval = schedule.repetitions === 0 ? 1 : schedule.repetitions === 1 ? 6 : Math.round(schedule.interval * ease)
+  return {
+    ease,
+    interval,
+    repetitions: schedule.repetitions + 1,
+    lapses: schedule.lapses,
+    due: addDays(now, interval),
+    lastReviewed: now
+  }
+}
+
+export const isDue = (schedule: CardSchedule, now = new Date()) => new Date(schedule.due).getTime() <= now.getTime()
+
+export function cardMaturity(schedule: CardSchedule): CardMaturity {
+  if (!schedule.lastReviewed) return 'new'
+  return schedule.interval >= MATURE_INTERVAL ? 'mature' : 'learning'
+}
+
+// "10m", "3d", "2mo": how long until a card is due again, for grade buttons
+export function formatInterval(due: Date, now = new Date()): string {
+  const minutes = Math.max(1, differenceInMinutes(due, now))
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h`
+  const days = Math.round(minutes / (60 * 24))
+  if (days < 31) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${(days / 365).toFixed(1)}y`
+}
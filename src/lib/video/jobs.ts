@@ -0,0 +1,95 @@
+import { createId } from '../utils'
+import type { VideoJobStatus, VideoJobUpdate } from '../providers/types'
+import type { Message } from '../chat/types'
+
+export type { VideoJobStatus }
+
+export const VIDEO_POLL_INTERVAL_MS = 2000
+// Give up on a job after this many polls in a row fail to reach the provider
+export const MAX_POLL_FAILURES = 5
+
+export interface VideoJob {
+  id: string
+  prompt: string
+  status: VideoJobStatus
+  // 0–1
+  progress: number
+  // Unset until the provider has accepted the job
+  providerJobId?: string
+  url?: string
+  error?: string
+  // Where the finished video belongs
+  conversationId: string | null
+  messageId: string
+  attempts: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const VIDEO_STATUS_LABELS: Record<VideoJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Rendering',
+  succeeded: 'Ready',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+export const isActiveJob = (job: VideoJob) => job.status === 'queued' || job.status === 'running'
+
+export const canRetryJob = (job: VideoJob) => job.status === 'failed' || job.status === 'cancelled'
+
+export function createVideoJob(prompt: string, messageId: string, conversationId: string | null): VideoJob {
+  const now = new Date()
+  return {
+    id: createId(),
+    prompt,
+    status: 'queued',
+    progress: 0,
+    conversationId,
+    messageId,
+    attempts: 1,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export function applyJobUpdate(job: VideoJob, update: VideoJobUpdate): VideoJob {
+  return {
+    ...job,
+    providerJobId: update.jobId,
+    status: update.status,
+    // Progress only moves forwards, even if the provider reports a dip
+    progress: update.status === 'succeeded' ? 1 : Math.max(job.progress, update.progress),
+    url: update.url ?? job.url,
+    error: update.error,
+    updatedAt: new Date()
+  }
+}
+
+export function failJob(job: VideoJob, error: string): VideoJob {
+  return { ...job, status: 'failed', error, updatedAt: new Date() }
+}
+
+// Starts the job over from the queue with a fresh provider job
+export function resetJob(job: VideoJob): VideoJob {
+  return {
+    ...job,
+    status: 'queued',
+    progress: 0,
+    providerJobId: undefined,
+    url: undefined,
+    error: undefined,
+    attempts: job.attempts + 1,
+    updatedAt: new Date()
+  }
+}
+
+// The chat message for a job, kept in step as the job progresses
+export function videoMessageFields(job: VideoJob): Partial<Message> {
+  return {
+    type: 'video',
+    videoJobId: job.id,
+    mediaUrl: job.url,
+    status: job.status === 'succeeded' ? 'complete' : isActiveJob(job) ? 'streaming' : 'error'
+  }
+}
@@ -0,0 +1,26 @@
+const endSentence = (line: string) => /[.!?…:]["')\]]*$/.test(line) ? line : `${line}.`
+
+// Markdown reads badly aloud: drop code, links' URLs and formatting marks
+export function toSpeakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' (code omitted) ')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    // Headings and list items rarely end in punctuation; give them a pause
+    .replace(/^\s{0,3}#{1,6}\s+(.*?)\s*$/gm, (_, line: string) => endSentence(line))
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+(.*?)\s*$/gm, (_, line: string) => endSentence(line))
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/\|/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Splits after sentence-ending punctuation (plus any closing quotes or
+// brackets) that is followed by whitespace, so "3.14" stays whole
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?…]["')\]]*)\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+}
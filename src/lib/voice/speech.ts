@@ -0,0 +1,123 @@
+import { userScopedStore } from '../storage/user-scope'
+import { splitSentences, toSpeakableText } from './sentences'
+
+export interface SpeechState {
+  // The message being read aloud, if any
+  messageId: string | null
+  sentences: string[]
+  // Index of the sentence being spoken
+  index: number
+  paused: boolean
+  rate: number
+}
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5]
+const DEFAULT_RATE = 1
+
+interface VoiceSettings {
+  id: 'voice'
+  rate: number
+}
+
+export const speechSupported = typeof window !== 'undefined' && 'speechSynthesis' in window
+
+// One shared player: starting another message stops the current one. Exposed
+// as an external store for useSyncExternalStore (see useSpeech).
+let state: SpeechState = { messageId: null, sentences: [], index: 0, paused: false, rate: DEFAULT_RATE }
+const listeners = new Set<() => void>()
+// Bumped on every stop/restart so late events from cancelled utterances are ignored
+let generation = 0
+
+function setState(patch: Partial<SpeechState>) {
+  state = { ...state, ...patch }
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeSpeech(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getSpeechState = () => state
+
+function speakFrom(index: number) {
+  if (index >= state.sentences.length) {
+    stopSpeaking()
+    return
+  }
+
+  const current = ++generation
+  const utterance = new SpeechSynthesisUtterance(state.sentences[index])
+  utterance.rate = state.rate
+  utterance.onend = () => {
+    if (current === generation) speakFrom(index + 1)
+  }
+  utterance.onerror = (e) => {
+    if (current !== generation || e.error === 'interrupted' || e.error === 'canceled') return
+    console.error('Speech failed:', e.error)
+    stopSpeaking()
+  }
+
+  setState({ index, paused: false })
+  window.speechSynthesis.speak(utterance)
+}
+
+export function speakMessage(messageId: string, text: string) {
+  if (!speechSupported) return
+  stopSpeaking()
+
+  const sentences = splitSentences(toSpeakableText(text))
+  if (sentences.length === 0) return
+  setState({ messageId, sentences })
+  speakFrom(0)
+}
+
+export function pauseSpeaking() {
+  if (!state.messageId || state.paused) return
+  window.speechSynthesis.pause()
+  setState({ paused: true })
+}
+
+export function resumeSpeaking() {
+  if (!state.messageId || !state.paused) return
+  window.speechSynthesis.resume()
+  setState({ paused: false })
+}
+
+export function stopSpeaking() {
+  generation++
+  if (speechSupported) window.speechSynthesis.cancel()
+  if (state.messageId) setState({ messageId: null, sentences: [], index: 0, paused: false })
+}
+
+const getSettingsStore = () => userScopedStore<VoiceSettings>('voice-settings')
+
+export function setSpeechRate(rate: number) {
+  setState({ rate })
+  getSettingsStore().put({ id: 'voice', rate }).catch(error => console.error('Failed to save speech rate:', error))
+
+  // Apply straight away by restarting the current sentence
+  if (state.messageId && !state.paused) {
+    generation++
+    window.speechSynthesis.cancel()
+    speakFrom(state.index)
+  }
+}
+
+let settingsLoad: Promise<void> | null = null
+
+// Every reader of the speech state shares one load; a failed load is retried
+// by the next caller
+export function loadSpeechSettings(): Promise<void> {
+  settingsLoad ??= getSettingsStore().get('voice')
+    .then(settings => {
+      if (settings) setState({ rate: settings.rate })
+    })
+    .catch(error => {
+      settingsLoad = null
+      throw error
+    })
+  return settingsLoad
+}
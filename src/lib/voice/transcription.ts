@@ -0,0 +1,32 @@
+import { provider as defaultProvider } from '../providers'
+import type { ChatProvider } from '../providers/types'
+
+// Anything that can turn recorded audio into text. Swap in the stub to work
+// on the voice UI without a microphone-to-network round trip.
+export interface TranscriptionBackend {
+  name: string
+  transcribe(audio: Blob, signal?: AbortSignal): Promise<string>
+}
+
+export function createProviderTranscription(chatProvider: ChatProvider = defaultProvider): TranscriptionBackend {
+  return {
+    name: chatProvider.name,
+    transcribe: (audio, signal) => chatProvider.transcribeAudio({ audio, signal })
+  }
+}
+
+// Resolves with `text` after `delayMs`, whatever was recorded
+export function createStubTranscription(text = 'Hello Albert, can you help me?', delayMs = 300): TranscriptionBackend {
+  return {
+    name: 'stub',
+    transcribe: (_audio, signal) => new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(text), delayMs)
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(new DOMException('The request was aborted', 'AbortError'))
+      }, { once: true })
+    })
+  }
+}
+
+export const defaultTranscription = createProviderTranscription()
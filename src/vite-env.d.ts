@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'mock' runs every AI feature against the offline deterministic provider
+  readonly VITE_CHAT_PROVIDER?: 'blink' | 'mock'
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -91,7 +91,8 @@ module.exports = {
   			'fade-in': 'fade-in 0.5s ease-out',
   			'slide-up': 'slide-up 0.5s ease-out',
   			'accordion-down': 'accordion-down 0.2s ease-out',
-  			'accordion-up': 'accordion-up 0.2s ease-out'
+  			'accordion-up': 'accordion-up 0.2s ease-out',
+  			flash: 'flash 1.6s ease-out'
   		},
   		keyframes: {
   			'fade-in': {
@@ -127,6 +128,14 @@ module.exports = {
   				to: {
   					height: '0'
   				}
+  			},
+  			flash: {
+  				'0%, 40%': {
+  					backgroundColor: 'rgb(254 240 138)'
+  				},
+  				'100%': {
+  					backgroundColor: 'transparent'
+  				}
   			}
   		},
   		borderRadius: {